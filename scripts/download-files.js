@@ -1,5 +1,6 @@
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 const https = require('https');
 const os = require('os');
 
@@ -18,7 +19,9 @@ const CONFIG = {
 // Resource definitions
 const RESOURCES = {
   ciphers: ['chacha20', 'aes-256-ctr', 'aes-128-ctr'],
-  files: ['circuit_final.zkey', 'circuit.wasm', 'circuit.r1cs']
+  files: ['circuit_final.zkey', 'circuit.wasm', 'circuit.r1cs'],
+  // SHA-256 digests of the downloaded files, checked by ReclaimSDK.loadCircuits
+  checksumFile: 'SHA256SUMS'
 };
 
 // Target directories - handles different node_modules layouts
@@ -354,6 +357,7 @@ class ZkResourceDownloader {
       }
 
       await this.downloadResources();
+      await this.writeChecksums();
       await this.deployResources();
       await this.cleanup();
       
@@ -382,7 +386,7 @@ class ZkResourceDownloader {
   async checkExistingFiles() {
     Logger.info('Checking for existing files...');
     
-    for (const file of this.allFiles) {
+    for (const file of [...this.allFiles, RESOURCES.checksumFile]) {
       let found = false;
       for (const dir of TARGET_DIRS) {
         if (await FileSystem.fileExists(path.join(dir, file))) {
@@ -464,6 +468,17 @@ class ZkResourceDownloader {
     Logger.info('Downloads completed.');
   }
 
+  async writeChecksums() {
+    Logger.info('Recording file digests...');
+    
+    const lines = [`# ${CONFIG.REPO}@${this.commitHash}`];
+    for (const filePath of this.allFiles) {
+      const data = await fs.promises.readFile(path.join(TEMP_DIR, filePath));
+      lines.push(`${crypto.createHash('sha256').update(data).digest('hex')}  ${filePath}`);
+    }
+    await fs.promises.writeFile(path.join(TEMP_DIR, RESOURCES.checksumFile), lines.join('\n') + '\n');
+  }
+
   async deployResources() {
     Logger.info('Moving files to target directories...');
     
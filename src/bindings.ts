@@ -1,6 +1,8 @@
 import koffi from 'koffi';
+import fs from 'fs';
 import path from 'path';
 import { ReclaimError, AlgorithmID } from './interfaces';
+import { NativeLibraryError } from './errors';
 
 // Define GoSlice struct for passing byte arrays to Go
 const GoSlice = koffi.struct('GoSlice', {
@@ -11,6 +13,16 @@ const GoSlice = koffi.struct('GoSlice', {
 
 // Library instance
 let lib: koffi.IKoffiLib | null = null;
+let loadedLibraryPath: string | null = null;
+
+// Functions the bindings use; a library missing any of them is incompatible
+export const LIBRECLAIM_SYMBOLS = [
+  'reclaim_execute_protocol',
+  'reclaim_free_string',
+  'reclaim_get_error_message',
+  'reclaim_get_version',
+  'InitAlgorithm',
+];
 
 // Function pointers
 let _reclaim_execute_protocol: koffi.KoffiFunction | null = null;
@@ -22,7 +34,7 @@ let _init_algorithm: koffi.KoffiFunction | null = null;
 /**
  * Get the platform and architecture-specific library path
  */
-function getDefaultLibraryPath(): string {
+export function getDefaultLibraryPath(): string {
   const arch = process.arch;
   const platform = process.platform;
 
@@ -36,7 +48,7 @@ function getDefaultLibraryPath(): string {
       archDir = 'arm64';
       break;
     default:
-      throw new Error(`Unsupported architecture: ${arch}`);
+      throw new NativeLibraryError(`Unsupported architecture: ${arch}`);
   }
 
   // Map Node.js platform to library extension and directory
@@ -52,7 +64,7 @@ function getDefaultLibraryPath(): string {
       libExt = 'so';
       break;
     default:
-      throw new Error(`Unsupported platform: ${platform}. Only macOS and Linux are supported (Windows is not supported due to TEE/Nitro Enclave dependencies).`);
+      throw new NativeLibraryError(`Unsupported platform: ${platform}. Only macOS and Linux are supported (Windows is not supported due to TEE/Nitro Enclave dependencies).`);
   }
 
   return path.resolve(__dirname, '..', 'lib', platformDir, archDir, `libreclaim.${libExt}`);
@@ -61,6 +73,8 @@ function getDefaultLibraryPath(): string {
 /**
  * Load the libreclaim shared library
  * @param libraryPath - Path to libreclaim.so (optional, auto-detects architecture if not provided)
+ * @throws NativeLibraryError if the platform is unsupported, or the library is missing,
+ *         cannot be loaded or lacks a required symbol
  */
 export function loadLibrary(libraryPath?: string): void {
   if (lib) {
@@ -68,12 +82,34 @@ export function loadLibrary(libraryPath?: string): void {
   }
 
   const libPath = libraryPath || getDefaultLibraryPath();
+  if (!fs.existsSync(libPath)) {
+    throw new NativeLibraryError(`libreclaim not found at ${libPath}`, { libraryPath: libPath });
+  }
+
+  let loaded: koffi.IKoffiLib;
+  try {
+    loaded = koffi.load(libPath);
+  } catch (error) {
+    throw new NativeLibraryError(`Failed to load libreclaim from ${libPath}: ${(error as Error).message}`, {
+      libraryPath: libPath,
+      cause: error,
+    });
+  }
 
-  lib = koffi.load(libPath);
+  // koffi throws for symbols the library does not export
+  const missingSymbols: string[] = [];
+  const bind = (name: string, result: koffi.TypeSpec, args: koffi.TypeSpec[]) => {
+    try {
+      return loaded.func(name, result, args);
+    } catch {
+      missingSymbols.push(name);
+      return null;
+    }
+  };
 
   // Define function signatures
   // reclaim_execute_protocol(char* request_json, char* config_json, char** claim_json, int* claim_length) -> int
-  _reclaim_execute_protocol = lib.func('reclaim_execute_protocol', 'int', [
+  const executeProtocolFn = bind('reclaim_execute_protocol', 'int', [
     'str',             // request_json
     'str',             // config_json
     '_Out_ void**',    // claim_json (output pointer - raw pointer for proper freeing)
@@ -81,7 +117,7 @@ export function loadLibrary(libraryPath?: string): void {
   ]);
 
   // reclaim_free_string(char* str) -> void
-  _reclaim_free_string = lib.func('reclaim_free_string', 'void', ['void*']);
+  const freeStringFn = bind('reclaim_free_string', 'void', ['void*']);
 
   // Define disposable string type that auto-frees with reclaim_free_string
   const disposableStr = koffi.disposable('str', (ptr: unknown) => {
@@ -91,13 +127,37 @@ export function loadLibrary(libraryPath?: string): void {
   });
 
   // reclaim_get_error_message(int error) -> char* (auto-freed)
-  _reclaim_get_error_message = lib.func('reclaim_get_error_message', disposableStr, ['int']);
+  const getErrorMessageFn = bind('reclaim_get_error_message', disposableStr, ['int']);
 
   // reclaim_get_version() -> char* (auto-freed)
-  _reclaim_get_version = lib.func('reclaim_get_version', disposableStr, []);
+  const getVersionFn = bind('reclaim_get_version', disposableStr, []);
 
   // InitAlgorithm(uint8 algorithmID, GoSlice provingKey, GoSlice r1cs) -> uint8
-  _init_algorithm = lib.func('InitAlgorithm', 'uint8', ['uint8', GoSlice, GoSlice]);
+  const initAlgorithmFn = bind('InitAlgorithm', 'uint8', ['uint8', GoSlice, GoSlice]);
+
+  if (missingSymbols.length > 0) {
+    loaded.unload();
+    throw new NativeLibraryError(
+      `libreclaim at ${libPath} does not export ${missingSymbols.join(', ')}; it is incompatible with this SDK`,
+      { libraryPath: libPath, missingSymbols }
+    );
+  }
+
+  lib = loaded;
+  loadedLibraryPath = libPath;
+  _reclaim_execute_protocol = executeProtocolFn;
+  _reclaim_free_string = freeStringFn;
+  _reclaim_get_error_message = getErrorMessageFn;
+  _reclaim_get_version = getVersionFn;
+  _init_algorithm = initAlgorithmFn;
+}
+
+/**
+ * Get the path the library was loaded from
+ * @returns Path, or null if the library is not loaded
+ */
+export function getLoadedLibraryPath(): string | null {
+  return loadedLibraryPath;
 }
 
 // Store for raw pointers that need to be freed
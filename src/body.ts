@@ -0,0 +1,212 @@
+import { ethers } from 'ethers';
+import { InvalidParamError } from './errors';
+import { EncodedOptions, MultipartFile, Options, RequestBody, secretOptions } from './interfaces';
+
+const PARAM_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Marks part of a structured body as secret. It is sent as a {{placeholder}}
+ * in the public body and its value is moved into secretParams.paramValues.
+ */
+export class SecretValue {
+  constructor(readonly value: string, readonly name?: string) {}
+}
+
+/**
+ * Marks a body value as secret
+ * @param value - Value to hide from the proof
+ * @param name - Placeholder name, generated when omitted
+ */
+export function secret(value: string, name?: string): SecretValue {
+  if (typeof value !== 'string') {
+    throw new InvalidParamError('secret value must be a string');
+  }
+  if (name !== undefined && !PARAM_NAME_PATTERN.test(name)) {
+    throw new InvalidParamError(`Invalid secret name "${name}": use letters, digits and underscores`);
+  }
+  return new SecretValue(value, name);
+}
+
+function isMultipartFile(value: unknown): value is MultipartFile {
+  return typeof value === 'object' && value !== null && !(value instanceof SecretValue) && 'content' in value;
+}
+
+function hasHeader(headers: { [key: string]: string } | undefined, name: string): boolean {
+  return Object.keys(headers || {}).some(key => key.toLowerCase() === name.toLowerCase());
+}
+
+function encodeFormComponent(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+/**
+ * Serializes a JSON string. The attestor substitutes anything of the form
+ * {{name}}, so a literal "{{" is written as "\u007b{" to keep it as text.
+ */
+function stringifyJsonString(str: string): string {
+  return JSON.stringify(str).replace(/\{(?=\{)/g, '\\u007b');
+}
+
+/**
+ * canonicalStringify, writing secrets as placeholders and escaping literal
+ * placeholders in every other string
+ */
+function stringifyJsonBody(value: unknown, placeholder: (value: SecretValue) => string): string {
+  if (value instanceof SecretValue) {
+    return `"${placeholder(value)}"`;
+  }
+  if (typeof value === 'string') {
+    return stringifyJsonString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return stringifyJsonBody((value as { toJSON(): unknown }).toJSON(), placeholder);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stringifyJsonBody(item === undefined ? null : item, placeholder)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${stringifyJsonString(key)}:${stringifyJsonBody((value as Record<string, unknown>)[key], placeholder)}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Checks a public multipart value, which is sent as is: it must not look like
+ * a placeholder and, in a header, must not break out of it
+ */
+function assertMultipartValue(value: string, field: string, inHeader: boolean): void {
+  if (value.includes('{{')) {
+    throw new InvalidParamError(`Multipart ${field} must not contain "{{", it would be read as a placeholder`);
+  }
+  if (inHeader && /["\r\n]/.test(value)) {
+    throw new InvalidParamError(`Multipart ${field} must not contain quotes or line breaks`);
+  }
+}
+
+/**
+ * Serializes a structured body and collects its secret values
+ * @param body - Structured body
+ * @param reservedNames - Param names already in use
+ * @returns Body with placeholders, its content type and the secret param values
+ */
+export function encodeBody(
+  body: RequestBody,
+  reservedNames: string[] = []
+): { body: string; contentType: string; paramValues: { [key: string]: string } } {
+  const paramValues: { [key: string]: string } = {};
+  const taken = new Set(reservedNames);
+  let counter = 0;
+
+  // secrets are escaped for the position they are substituted into
+  const placeholder = (value: SecretValue, escape: (str: string) => string) => {
+    let name = value.name;
+    if (name === undefined) {
+      do {
+        name = `secret_${counter++}`;
+      } while (taken.has(name));
+    } else if (taken.has(name)) {
+      throw new InvalidParamError(`Duplicate param name "${name}" in body`);
+    }
+    taken.add(name);
+    paramValues[name] = escape(value.value);
+    return `{{${name}}}`;
+  };
+
+  if (typeof body !== 'object' || body === null) {
+    throw new InvalidParamError('body must be a string or one of { json }, { form }, { multipart }');
+  }
+
+  if ('json' in body) {
+    return {
+      body: stringifyJsonBody(body.json, value => placeholder(value, str => JSON.stringify(str).slice(1, -1))),
+      contentType: 'application/json',
+      paramValues,
+    };
+  }
+
+  if ('form' in body) {
+    const fields = Object.entries(body.form).map(([key, value]) => {
+      const encoded = value instanceof SecretValue
+        ? placeholder(value, encodeFormComponent)
+        : encodeFormComponent(String(value));
+      return `${encodeFormComponent(key)}=${encoded}`;
+    });
+    return {
+      body: fields.join('&'),
+      contentType: 'application/x-www-form-urlencoded',
+      paramValues,
+    };
+  }
+
+  if ('multipart' in body) {
+    const parts = Object.entries(body.multipart).map(([name, value]) => {
+      const file = isMultipartFile(value) ? value : undefined;
+      const content = file ? file.content : value as Exclude<typeof value, MultipartFile>;
+      assertMultipartValue(name, 'name', true);
+      if (file?.filename !== undefined) {
+        assertMultipartValue(file.filename, 'filename', true);
+      }
+      if (file?.contentType !== undefined) {
+        assertMultipartValue(file.contentType, 'contentType', true);
+      }
+      if (!(content instanceof SecretValue)) {
+        assertMultipartValue(String(content), `value of "${name}"`, false);
+      }
+      let headers = `Content-Disposition: form-data; name="${name}"`;
+      if (file?.filename !== undefined) {
+        headers += `; filename="${file.filename}"`;
+      }
+      if (file) {
+        headers += `\r\nContent-Type: ${file.contentType || 'application/octet-stream'}`;
+      }
+      const encoded = content instanceof SecretValue ? placeholder(content, str => str) : String(content);
+      return `${headers}\r\n\r\n${encoded}\r\n`;
+    });
+
+    // derived from the public content only, so the same body always gets the same boundary
+    const hash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(parts.join(''))).slice(2, 26);
+    const boundary = `zkfetch-boundary-${hash}`;
+    return {
+      body: parts.map(part => `--${boundary}\r\n${part}`).join('') + `--${boundary}--\r\n`,
+      contentType: `multipart/form-data; boundary=${boundary}`,
+      paramValues,
+    };
+  }
+
+  throw new InvalidParamError('body must be a string or one of { json }, { form }, { multipart }');
+}
+
+/**
+ * Serializes a structured `options.body`, setting Content-Type unless already
+ * present and moving secret values into `secretOptions.paramValues`
+ */
+export function encodeRequestBody(
+  options?: Options,
+  secretOptions?: secretOptions
+): { options?: EncodedOptions; secretOptions?: secretOptions } {
+  if (!options || options.body === undefined || typeof options.body === 'string') {
+    return { options: options as EncodedOptions | undefined, secretOptions };
+  }
+
+  const encoded = encodeBody(options.body, [
+    ...Object.keys(options.paramValues || {}),
+    ...Object.keys(secretOptions?.paramValues || {}),
+  ]);
+
+  const headers = { ...options.headers };
+  if (!hasHeader(options.headers, 'Content-Type') && !hasHeader(secretOptions?.headers, 'Content-Type')) {
+    headers['Content-Type'] = encoded.contentType;
+  }
+
+  return {
+    options: { ...options, headers, body: encoded.body },
+    secretOptions: Object.keys(encoded.paramValues).length
+      ? { ...secretOptions, paramValues: { ...secretOptions?.paramValues, ...encoded.paramValues } }
+      : secretOptions,
+  };
+}
@@ -3,7 +3,14 @@ const APP_BACKEND_URL = "https://api.reclaimprotocol.org"
 const ATTESTOR_NODE_URL = "wss://attestor.reclaimprotocol.org/ws"
 const DEFAULT_EXPIRY_HOURS = 1;
 const MAX_EXPIRY_HOURS = 72;
+const DEFAULT_BATCH_CONCURRENCY = 5;
+// maximum number of delegated tokens between a token and the application
+const MAX_DELEGATION_DEPTH = 3;
+// worker threads running TEE protocol executions in parallel
+const DEFAULT_TEE_POOL_SIZE = 4;
+// oldest libreclaim release the bindings in bindings.ts are written against
+const MIN_LIBRECLAIM_VERSION = "0.1.0";
 
 
 
-export { LOGS_BACKEND_URL, APP_BACKEND_URL, ATTESTOR_NODE_URL, DEFAULT_EXPIRY_HOURS, MAX_EXPIRY_HOURS }
\ No newline at end of file
+export { LOGS_BACKEND_URL, APP_BACKEND_URL, ATTESTOR_NODE_URL, DEFAULT_EXPIRY_HOURS, MAX_EXPIRY_HOURS, DEFAULT_BATCH_CONCURRENCY, MAX_DELEGATION_DEPTH, DEFAULT_TEE_POOL_SIZE, MIN_LIBRECLAIM_VERSION }
\ No newline at end of file
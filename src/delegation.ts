@@ -0,0 +1,118 @@
+import { InvalidParamError } from './errors';
+import { SignatureData } from './interfaces';
+import { isUrlPatternWithin } from './url-pattern';
+
+/** Fields a delegated token may set; everything else is inherited from its parent */
+export const DELEGATED_SIGNATURE_FIELDS = [
+  'applicationId',
+  'allowedUrls',
+  'expiresAt',
+  'tokenId',
+  'allowedMethods',
+  'maxBodyBytes',
+  'contextAddress',
+  'delegateAddress',
+  'parent',
+];
+
+function isSubset(values: string[], allowed: string[]): boolean {
+  return values.every(value => allowed.includes(value));
+}
+
+/**
+ * Rejects a delegated token that is broader than its parent
+ * @throws {InvalidParamError} If the child loosens any restriction
+ */
+export function assertNarrowerScope(parent: SignatureData, child: SignatureData): void {
+  const extraFields = Object.keys(child).filter(key => !DELEGATED_SIGNATURE_FIELDS.includes(key));
+  if (extraFields.length) {
+    throw new InvalidParamError(`Delegated signatures cannot set ${extraFields.join(', ')}`);
+  }
+  if (child.applicationId.toLowerCase() !== parent.applicationId.toLowerCase()) {
+    throw new InvalidParamError('Delegated signature applicationId does not match its parent');
+  }
+  if (child.expiresAt > parent.expiresAt) {
+    throw new InvalidParamError('Delegated signature cannot outlive its parent');
+  }
+  if (parent.allowedUrls.length > 0 && child.allowedUrls.length === 0) {
+    throw new InvalidParamError('Delegated signature must list allowedUrls when its parent does');
+  }
+  for (const pattern of child.allowedUrls) {
+    if (!isUrlPatternWithin(pattern, parent.allowedUrls)) {
+      throw new InvalidParamError(`Delegated URL pattern "${pattern}" is not within the parent's allowedUrls`);
+    }
+  }
+  if (child.allowedMethods && parent.allowedMethods && !isSubset(child.allowedMethods, parent.allowedMethods)) {
+    throw new InvalidParamError('Delegated allowedMethods must be a subset of the parent\'s');
+  }
+  // per-pattern methods replace allowedMethods, so they bound the child's methods too
+  for (const [pattern, methods] of Object.entries(parent.methodsByPattern || {})) {
+    const overlaps = child.allowedUrls.some(childPattern =>
+      isUrlPatternWithin(childPattern, [pattern]) || isUrlPatternWithin(pattern, [childPattern])
+    );
+    if (child.allowedMethods && overlaps && !isSubset(child.allowedMethods, methods)) {
+      throw new InvalidParamError(
+        `Delegated allowedMethods must be a subset of the parent's methods for "${pattern}"`
+      );
+    }
+  }
+  if (
+    child.maxBodyBytes !== undefined &&
+    parent.maxBodyBytes !== undefined &&
+    child.maxBodyBytes > parent.maxBodyBytes
+  ) {
+    throw new InvalidParamError('Delegated maxBodyBytes cannot exceed the parent\'s');
+  }
+  if (
+    child.contextAddress !== undefined &&
+    parent.contextAddress !== undefined &&
+    child.contextAddress.toLowerCase() !== parent.contextAddress.toLowerCase()
+  ) {
+    throw new InvalidParamError('Delegated contextAddress must match the parent\'s');
+  }
+}
+
+/**
+ * Combines a delegated token with its verified parent into the restrictions
+ * that apply to requests made with it
+ */
+export function mergeDelegatedScope(parent: SignatureData, child: SignatureData): SignatureData {
+  const allowedMethods = child.allowedMethods ?? parent.allowedMethods;
+
+  // per-pattern methods of the parent still apply, narrowed to the child's methods;
+  // an emptied entry denies every method rather than falling back to allowedMethods
+  let methodsByPattern = parent.methodsByPattern;
+  if (methodsByPattern && child.allowedMethods) {
+    methodsByPattern = Object.fromEntries(
+      Object.entries(methodsByPattern)
+        .map(([pattern, methods]) => [pattern, methods.filter(method => child.allowedMethods!.includes(method))])
+    );
+  }
+
+  const maxBodyBytes = [parent.maxBodyBytes, child.maxBodyBytes]
+    .filter((value): value is number => value !== undefined);
+
+  const merged: SignatureData = {
+    applicationId: child.applicationId,
+    allowedUrls: child.allowedUrls,
+    expiresAt: child.expiresAt,
+  };
+  setIfDefined(merged, 'tokenId', child.tokenId);
+  setIfDefined(merged, 'allowedMethods', allowedMethods);
+  setIfDefined(merged, 'methodsByPattern', methodsByPattern);
+  setIfDefined(merged, 'maxBodyBytes', maxBodyBytes.length ? Math.min(...maxBodyBytes) : undefined);
+  setIfDefined(merged, 'contextAddress', parent.contextAddress ?? child.contextAddress);
+  // redemptions of delegated tokens count against the parent's nonce
+  setIfDefined(merged, 'nonce', parent.nonce);
+  setIfDefined(merged, 'maxUses', parent.maxUses);
+  setIfDefined(merged, 'delegateAddress', child.delegateAddress);
+  setIfDefined(merged, 'parent', child.parent);
+  return merged;
+}
+
+/* unset restrictions stay absent, as in generated tokens */
+function setIfDefined<K extends keyof SignatureData>(data: SignatureData, key: K, value: SignatureData[K]): void {
+  if (value !== undefined) {
+    data[key] = value;
+  }
+}
@@ -1,3 +1,5 @@
+import { ReclaimError } from "./interfaces";
+
 export class InvalidParamError extends Error {
     constructor(message?: string) {
         super(message)
@@ -31,4 +33,362 @@ export class ApplicationError extends Error {
         super(message)
         this.name = 'ApplicationError'
     }
-}
\ No newline at end of file
+}
+
+export class TimeoutError extends Error {
+    constructor(message?: string) {
+        super(message)
+        this.name = 'TimeoutError'
+    }
+}
+
+export class AbortError extends Error {
+    constructor(message?: string) {
+        super(message)
+        this.name = 'AbortError'
+    }
+}
+
+export interface ZkFetchErrorOptions {
+    /** Whether retrying the request may succeed */
+    retryable?: boolean
+    /** Attempt (1-based) that produced the error */
+    attempt?: number
+    /** Underlying error */
+    cause?: unknown
+}
+
+/**
+ * Base class for attestor and TEE failures raised by zkFetch
+ */
+export class ZkFetchError extends Error {
+    readonly code: string
+    readonly retryable: boolean
+    attempt?: number
+    readonly cause?: unknown
+
+    constructor(code: string, message?: string, options: ZkFetchErrorOptions = {}) {
+        super(message)
+        this.name = 'ZkFetchError'
+        this.code = code
+        this.retryable = options.retryable ?? false
+        this.attempt = options.attempt
+        this.cause = options.cause
+    }
+}
+
+export class AttestorConnectionError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('ATTESTOR_CONNECTION', message, { retryable: true, ...options })
+        this.name = 'AttestorConnectionError'
+    }
+}
+
+export class TlsHandshakeError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('TLS_HANDSHAKE', message, { retryable: true, ...options })
+        this.name = 'TlsHandshakeError'
+    }
+}
+
+export class ResponseMatchError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('RESPONSE_MATCH', message, { retryable: false, ...options })
+        this.name = 'ResponseMatchError'
+    }
+}
+
+export class RedactionError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('REDACTION', message, { retryable: false, ...options })
+        this.name = 'RedactionError'
+    }
+}
+
+export class UpstreamStatusError extends ZkFetchError {
+    /** HTTP status returned by the proven endpoint */
+    readonly status: number
+
+    constructor(status: number, message?: string, options: ZkFetchErrorOptions = {}) {
+        super('UPSTREAM_STATUS', message, {
+            retryable: status >= 500 || status === 429 || status === 408,
+            ...options,
+        })
+        this.name = 'UpstreamStatusError'
+        this.status = status
+    }
+}
+
+/**
+ * Base class for requests a session signature does not permit. These extend
+ * InvalidParamError, which such failures were raised as before, and carry a
+ * `code` like ZkFetchError. They are never retryable.
+ */
+export class SessionSignatureError extends InvalidParamError {
+    readonly code: string
+    readonly retryable = false
+
+    constructor(code: string, message?: string) {
+        super(message)
+        this.name = 'SessionSignatureError'
+        this.code = code
+    }
+}
+
+export class SignatureExpiredError extends SessionSignatureError {
+    constructor(message?: string) {
+        super('SIGNATURE_EXPIRED', message)
+        this.name = 'SignatureExpiredError'
+    }
+}
+
+export class SignatureRevokedError extends SessionSignatureError {
+    constructor(message?: string) {
+        super('SIGNATURE_REVOKED', message)
+        this.name = 'SignatureRevokedError'
+    }
+}
+
+export class SignatureReplayError extends SessionSignatureError {
+    constructor(message?: string) {
+        super('SIGNATURE_REPLAYED', message)
+        this.name = 'SignatureReplayError'
+    }
+}
+
+export class UrlNotAllowedError extends SessionSignatureError {
+    constructor(message?: string) {
+        super('URL_NOT_ALLOWED', message)
+        this.name = 'UrlNotAllowedError'
+    }
+}
+
+export class RequestNotAllowedError extends SessionSignatureError {
+    constructor(message?: string) {
+        super('REQUEST_NOT_ALLOWED', message)
+        this.name = 'RequestNotAllowedError'
+    }
+}
+
+export class TeeProtocolError extends ZkFetchError {
+    /** Error code reported by libreclaim */
+    readonly teeCode: ReclaimError
+
+    constructor(teeCode: ReclaimError, message?: string, options: ZkFetchErrorOptions = {}) {
+        super('TEE_PROTOCOL', message, {
+            retryable: teeCode === ReclaimError.CONNECTION_FAILED || teeCode === ReclaimError.TIMEOUT,
+            ...options,
+        })
+        this.name = 'TeeProtocolError'
+        this.teeCode = teeCode
+    }
+}
+
+/**
+ * The worker thread running a TEE execution threw or exited. The worker is
+ * replaced, so a retry runs on a fresh one.
+ */
+export class TeeWorkerCrashError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('TEE_WORKER_CRASHED', message, { retryable: true, ...options })
+        this.name = 'TeeWorkerCrashError'
+    }
+}
+
+export interface NativeLibraryErrorOptions extends ZkFetchErrorOptions {
+    /** Library path that was tried */
+    libraryPath?: string
+    /** Required symbols the library does not export */
+    missingSymbols?: string[]
+}
+
+/**
+ * libreclaim is not available: the platform is unsupported, or the library is
+ * missing, fails to load or is an incompatible build
+ */
+export class NativeLibraryError extends ZkFetchError {
+    readonly libraryPath?: string
+    readonly missingSymbols?: string[]
+
+    constructor(message?: string, options: NativeLibraryErrorOptions = {}) {
+        const { libraryPath, missingSymbols, ...errorOptions } = options
+        super('NATIVE_LIBRARY', message, { retryable: false, ...errorOptions })
+        this.name = 'NativeLibraryError'
+        this.libraryPath = libraryPath
+        this.missingSymbols = missingSymbols
+    }
+}
+
+export interface AttestorQuorumErrorOptions extends ZkFetchErrorOptions {
+    /** Attestors that signed the most common claim */
+    agreeing?: number
+    /** Attestors required to sign the same claim */
+    quorum?: number
+    /** Error of each attestor that produced no claim, by URL */
+    failures?: { [attestorUrl: string]: unknown }
+}
+
+/**
+ * Fewer attestors than the quorum signed the same claim, because some failed
+ * or returned a claim that differs from the others
+ */
+export class AttestorQuorumError extends ZkFetchError {
+    readonly agreeing: number
+    readonly quorum: number
+    readonly failures: { [attestorUrl: string]: unknown }
+
+    constructor(message?: string, options: AttestorQuorumErrorOptions = {}) {
+        const { agreeing, quorum, failures, ...errorOptions } = options
+        super('ATTESTOR_QUORUM', message, { retryable: false, ...errorOptions })
+        this.name = 'AttestorQuorumError'
+        this.agreeing = agreeing ?? 0
+        this.quorum = quorum ?? 0
+        this.failures = failures ?? {}
+    }
+}
+
+/**
+ * The lock of a FileNonceStore was held by another process for longer than
+ * `lockTimeoutMs`. Retrying may succeed once that process releases it.
+ */
+export class NonceStoreLockTimeoutError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('NONCE_STORE_LOCK_TIMEOUT', message, { retryable: true, ...options })
+        this.name = 'NonceStoreLockTimeoutError'
+    }
+}
+
+/**
+ * The file of a FileNonceStore is not valid JSON. Redemptions keep failing
+ * until it is restored or deleted.
+ */
+export class NonceStoreCorruptedError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('NONCE_STORE_CORRUPTED', message, { retryable: false, ...options })
+        this.name = 'NonceStoreCorruptedError'
+    }
+}
+
+/**
+ * Any other claim creation failure reported by the attestor or TEE
+ */
+export class ClaimCreationError extends ZkFetchError {
+    constructor(message?: string, options: ZkFetchErrorOptions = {}) {
+        super('CLAIM_CREATION', message, { retryable: true, ...options })
+        this.name = 'ClaimCreationError'
+    }
+}
+
+// Attestor error codes that will fail the same way on every attempt
+const NON_RETRYABLE_ATTESTOR_CODES = [
+    'ERROR_INVALID_CLAIM',
+    'ERROR_BAD_REQUEST',
+    'ERROR_AUTHENTICATION_FAILED',
+]
+
+const ATTESTOR_CONNECTION_CODES = ['ERROR_NETWORK_ERROR', 'ERROR_PROXY_ERROR']
+
+const RESPONSE_MATCH_PATTERNS = [
+    /Invalid receipt/i,
+    /Duplicate parameter/i,
+    /request body mismatch/i,
+    /Invalid response match type/i,
+    /Invalid regular expression/i,
+]
+
+const REDACTION_PATTERNS = [
+    /does not match found element/i,
+    /jsonPath not found/i,
+    /Expected either xPath, jsonPath or regex/i,
+    /named capture group is needed per hashed redaction/i,
+    /Hash redactions cannot be performed/i,
+]
+
+// Requests the attestor rejects before talking to the upstream server
+const INVALID_REQUEST_PATTERNS = [
+    /not found in (templateParams|paramValues)/i,
+    /Invalid method/i,
+    /Geolocation .* is invalid/i,
+]
+
+// Messages of @reclaimprotocol/tls, which the attestor runs the session with
+const TLS_PATTERNS = [
+    /^Fatal alert: [A-Z_]+/,
+    /Handshake was not completed before socket closed/,
+    /No certificates received/,
+    /Certificate is not for host/,
+    /is not within validity period|is outside validity/,
+    /Missing issuer for certificate|Verification of .* failed by issuer/,
+    /Finish received before certificate verification|Server finish does not match|Invalid finish message/,
+    /Unsupported (TLS version|protocol version|cipher suite)/,
+]
+
+const CONNECTION_PATTERNS = [
+    /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE/,
+    /socket hang up/i,
+    /websocket/i,
+    /network/i,
+    /timed? ?out/i,
+]
+
+/**
+ * Maps an error thrown while creating a claim to the zkFetch error hierarchy.
+ * Errors defined by this library (validation, cancellation, ZkFetchError) are
+ * returned unchanged.
+ */
+export function toZkFetchError(error: unknown): Error {
+    if (
+        error instanceof ZkFetchError ||
+        error instanceof InvalidParamError ||
+        error instanceof InvalidMethodError ||
+        error instanceof FetchError ||
+        error instanceof NetworkError ||
+        error instanceof ApplicationError ||
+        error instanceof TimeoutError ||
+        error instanceof AbortError
+    ) {
+        return error
+    }
+
+    const err = error as { code?: unknown; message?: unknown; name?: unknown } | undefined
+    const message = typeof err?.message === 'string' ? err.message : String(error)
+    const options = { cause: error }
+
+    // libreclaim error codes, e.g. from ReclaimProtocolError
+    if (typeof err?.code === 'number' && err.code < 0) {
+        return new TeeProtocolError(err.code, message, options)
+    }
+
+    // Upstream HTTP status, e.g. "Expected status 2xx, got 404 (Not Found)"
+    const status = message.match(/(?:got|Provider returned error) (\d{3})\b/)
+    if (status) {
+        return new UpstreamStatusError(Number(status[1]), message, options)
+    }
+
+    if (RESPONSE_MATCH_PATTERNS.some(pattern => pattern.test(message))) {
+        return new ResponseMatchError(message, options)
+    }
+    if (REDACTION_PATTERNS.some(pattern => pattern.test(message))) {
+        return new RedactionError(message, options)
+    }
+
+    const code = typeof err?.code === 'string' ? err.code : undefined
+    if (INVALID_REQUEST_PATTERNS.some(pattern => pattern.test(message))) {
+        return new ClaimCreationError(message, { ...options, retryable: false })
+    }
+    if (code && NON_RETRYABLE_ATTESTOR_CODES.includes(code)) {
+        return new ClaimCreationError(message, { ...options, retryable: false })
+    }
+    if (code && ATTESTOR_CONNECTION_CODES.includes(code)) {
+        return new AttestorConnectionError(message, options)
+    }
+
+    if (TLS_PATTERNS.some(pattern => pattern.test(message))) {
+        return new TlsHandshakeError(message, options)
+    }
+    if (CONNECTION_PATTERNS.some(pattern => pattern.test(message))) {
+        return new AttestorConnectionError(message, options)
+    }
+
+    return new ClaimCreationError(message, options)
+}
@@ -0,0 +1,158 @@
+import { InvalidParamError, ResponseMatchError } from './errors';
+import { ExtractedValues, ExtractionSchema, secretOptions } from './interfaces';
+import { ExtractionFieldType } from './types';
+
+const FIELD_TYPES: ExtractionFieldType[] = ['string', 'number', 'boolean', 'decimal'];
+
+// group names become keys of extractedParameterValues
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const NUMERIC_PATTERN = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/* Regex for a JSON value of the given type, captured in a group named after the field */
+function valuePattern(field: string, type: ExtractionFieldType): string {
+  switch (type) {
+    case 'string':
+      return `"(?<${field}>(?:[^"\\\\]|\\\\.)*)"`;
+    case 'boolean':
+      return `(?<${field}>true|false)`;
+    default:
+      // numbers may be sent as JSON numbers or numeric strings
+      return `"?(?<${field}>-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)"?`;
+  }
+}
+
+/* Last property name of a jsonPath, e.g. "usd" for "$.ethereum.usd" or "$['usd']" */
+function jsonPathKey(jsonPath: string): string | undefined {
+  const match = jsonPath.match(/(?:\.([A-Za-z0-9_$-]+)|\[['"]([^'"]+)['"]\])$/);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validates an extraction schema
+ * @throws {InvalidParamError} If a field name or rule is invalid
+ */
+export function assertCorrectnessOfExtractionSchema(schema: ExtractionSchema): void {
+  if (!schema || typeof schema !== 'object' || Object.keys(schema).length === 0) {
+    throw new InvalidParamError('extraction must be a non-empty object');
+  }
+
+  for (const [name, field] of Object.entries(schema)) {
+    if (!FIELD_NAME_PATTERN.test(name)) {
+      throw new InvalidParamError(`Extraction field "${name}" must be a valid identifier`);
+    }
+    if (!field || !FIELD_TYPES.includes(field.type)) {
+      throw new InvalidParamError(`Extraction field "${name}" must have a type of: ${FIELD_TYPES.join(', ')}`);
+    }
+    if (!field.jsonPath && !field.regex) {
+      throw new InvalidParamError(`Extraction field "${name}" needs a jsonPath or a regex`);
+    }
+    if (field.regex && !field.regex.includes(`(?<${name}>`)) {
+      throw new InvalidParamError(`Extraction field "${name}" regex must contain a (?<${name}>...) group`);
+    }
+    if (field.jsonPath && !field.regex && !jsonPathKey(field.jsonPath)) {
+      throw new InvalidParamError(
+        `Extraction field "${name}" jsonPath must end in a property name, use a regex otherwise`
+      );
+    }
+  }
+}
+
+/**
+ * Compiles an extraction schema into response matches and redactions
+ *
+ * A jsonPath field reveals the property and matches `"key": <value>` with a
+ * named group for the field. A regex field is used as both the redaction
+ * (unless a jsonPath is also given) and the match.
+ */
+export function compileExtractionSchema(
+  schema: ExtractionSchema
+): Required<Pick<secretOptions, 'responseMatches' | 'responseRedactions'>> {
+  assertCorrectnessOfExtractionSchema(schema);
+
+  const responseMatches: secretOptions['responseMatches'] = [];
+  const responseRedactions: secretOptions['responseRedactions'] = [];
+
+  for (const [name, field] of Object.entries(schema)) {
+    if (field.jsonPath) {
+      responseRedactions.push({ jsonPath: field.jsonPath });
+    } else {
+      responseRedactions.push({ regex: field.regex });
+    }
+
+    const matchValue = field.regex
+      || `"${escapeRegex(jsonPathKey(field.jsonPath!)!)}"\\s*:\\s*${valuePattern(name, field.type)}`;
+    responseMatches.push({ type: 'regex', value: matchValue });
+  }
+
+  return { responseMatches, responseRedactions };
+}
+
+/**
+ * Merges the compiled schema into the request's secret options.
+ * Explicit responseMatches and responseRedactions are kept and come first.
+ */
+export function applyExtractionSchema(secretOptions: secretOptions): secretOptions {
+  if (!secretOptions.extraction) {
+    return secretOptions;
+  }
+
+  const compiled = compileExtractionSchema(secretOptions.extraction);
+  return {
+    ...secretOptions,
+    responseMatches: [...(secretOptions.responseMatches || []), ...compiled.responseMatches],
+    responseRedactions: [...(secretOptions.responseRedactions || []), ...compiled.responseRedactions],
+  };
+}
+
+/**
+ * Parses the extracted parameters of a proof according to the schema
+ * @param schema - Schema the request was made with
+ * @param extractedParameterValues - `extractedParameterValues` of the proof
+ * @throws {ResponseMatchError} If a field is missing or does not parse as its type
+ */
+export function parseExtractedValues<S extends ExtractionSchema>(
+  schema: S,
+  extractedParameterValues: unknown
+): ExtractedValues<S> {
+  const raw = (extractedParameterValues && typeof extractedParameterValues === 'object'
+    ? extractedParameterValues
+    : {}) as { [key: string]: unknown };
+  const extracted: { [key: string]: string | number | boolean } = {};
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = raw[name];
+    if (typeof value !== 'string') {
+      throw new ResponseMatchError(`Extraction field "${name}" was not found in the response`);
+    }
+
+    switch (field.type) {
+      case 'string':
+        try {
+          extracted[name] = JSON.parse(`"${value}"`);
+        } catch {
+          extracted[name] = value;
+        }
+        break;
+      case 'boolean':
+        if (value !== 'true' && value !== 'false') {
+          throw new ResponseMatchError(`Extraction field "${name}" is not a boolean: ${value}`);
+        }
+        extracted[name] = value === 'true';
+        break;
+      case 'number':
+      case 'decimal':
+        if (!NUMERIC_PATTERN.test(value)) {
+          throw new ResponseMatchError(`Extraction field "${name}" is not a number: ${value}`);
+        }
+        extracted[name] = field.type === 'number' ? Number(value) : value;
+        break;
+    }
+  }
+
+  return extracted as ExtractedValues<S>;
+}
@@ -2,4 +2,15 @@ export * from './zkfetch'
 export * from './types'
 export * from './interfaces'
 export * from './signature'
+export * from './verify'
+export * from './extraction'
+export * from './body'
+export * from './owner-key'
+export * from './nonce'
+export * from './revocation'
+export * from './delegation'
+export * from './url-pattern'
+export * from './tee'
+export * from './tee-mock'
+export * from './errors'
 export * from './providers/cashfree'
\ No newline at end of file
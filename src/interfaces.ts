@@ -1,4 +1,18 @@
-import { LogType } from "./types";
+import {
+  BackoffStrategy,
+  ExecutionMode,
+  ExecutionPath,
+  ExtractionFieldType,
+  JitterStrategy,
+  LogType,
+  ProofVerificationFailureReason,
+  SessionSignatureVersion,
+  TelemetryMode,
+  UrlPatternKind,
+  UrlPatternLintCode,
+  UrlPatternLintSeverity,
+} from "./types";
+import type { SecretValue } from "./body";
 
 // TEE Error codes matching C enum
 export enum ReclaimError {
@@ -21,13 +35,71 @@ export enum AlgorithmID {
 
 export interface Options {
   method: string
-  body?: string;
+  /** Raw body, or a structured body serialized with the matching Content-Type */
+  body?: string | RequestBody;
   headers?: { [key: string]: string };
   geoLocation?: string;
   paramValues?: { [key: string]: string };
   context?: { contextAddress: string, contextMessage: string };
-  /** Enable TEE mode for this request (default: false) */
+  /** Enable TEE mode for this request (default: false); same as executionMode 'tee' */
   useTee?: boolean;
+  /** Where the proof is created (default: 'tee' if useTee is set, else 'attestor') */
+  executionMode?: ExecutionMode;
+  /** Cancels the request, including pending retries */
+  signal?: AbortSignal;
+  /** Time limit for the whole request in milliseconds, including retries */
+  timeoutMs?: number;
+  /** Retry behaviour for this request, overrides the client's policy */
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+/** Options after a structured body has been serialized */
+export interface EncodedOptions extends Omit<Options, 'body'> {
+  body?: string;
+}
+
+/** A form or multipart value; wrap with secret() to hide it from the proof */
+export type BodyValue = string | number | boolean | SecretValue;
+
+export interface MultipartFile {
+  content: string | SecretValue;
+  filename?: string;
+  /** Default: application/octet-stream */
+  contentType?: string;
+}
+
+/** JSON body, serialized with sorted keys; secret() values may appear anywhere */
+export interface JsonBody {
+  json: unknown;
+}
+
+/** application/x-www-form-urlencoded body, fields in insertion order */
+export interface FormBody {
+  form: { [key: string]: BodyValue };
+}
+
+/** multipart/form-data body, parts in insertion order */
+export interface MultipartBody {
+  multipart: { [name: string]: BodyValue | MultipartFile };
+}
+
+export type RequestBody = JsonBody | FormBody | MultipartBody;
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+  backoff: BackoffStrategy;
+  jitter: JitterStrategy;
+  /**
+   * Decides whether a failed attempt is retried
+   * @param error - Error thrown by the attempt
+   * @param attempt - Number of attempts made so far (1-based)
+   */
+  shouldRetry(error: unknown, attempt: number): boolean;
 }
 
 
@@ -35,10 +107,135 @@ export interface Options {
 
 export interface secretOptions {
   headers?: { [key: string]: string };
-  responseMatches?: { type: 'regex' | 'contains', value: string }[];
+  /** With `invert`, the match must fail instead */
+  responseMatches?: { type: 'regex' | 'contains', value: string, invert?: boolean }[];
   responseRedactions?: { regex?: string, jsonPath?: string, xPath?: string }[];
   cookieStr?: string;
   paramValues?: { [key: string]: string };
+  /** Declarative fields to extract, compiled into responseMatches and responseRedactions */
+  extraction?: ExtractionSchema;
+}
+
+/** A field to extract from the response */
+export interface ExtractionField {
+  /** Path of the property to reveal, e.g. "$.ethereum.usd" */
+  jsonPath?: string;
+  /** Regex with a named group matching the field name, e.g. "(?<price>[\\d.]+)" */
+  regex?: string;
+  type: ExtractionFieldType;
+}
+
+/** Field name -> extraction rule; names must be valid regex group names */
+export interface ExtractionSchema {
+  [field: string]: ExtractionField;
+}
+
+interface ExtractionValueTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+  decimal: string;
+}
+
+/** Parsed values for a schema, e.g. { price: number } for { price: { type: 'number' } } */
+export type ExtractedValues<S extends ExtractionSchema> = {
+  [K in keyof S]: ExtractionValueTypes[S[K]['type']];
+};
+
+/** A byte range of the response body that would be revealed to the attestor */
+export interface RevealedRange {
+  /** Start offset in bytes, inclusive */
+  fromIndex: number;
+  /** End offset in bytes, exclusive */
+  toIndex: number;
+  text: string;
+}
+
+export interface ResponseMatchResult {
+  type: 'regex' | 'contains';
+  /** Match value after {{param}} substitution */
+  value: string;
+  invert: boolean;
+  passed: boolean;
+}
+
+/** Result of previewZkFetch */
+export interface ZkFetchPreview {
+  /** Whether the attestor would accept the response */
+  ok: boolean;
+  status: number;
+  body: string;
+  /** Revealed ranges of the body, sorted and merged */
+  revealed: RevealedRange[];
+  /** Body with every hidden byte replaced by "*" */
+  redactedBody: string;
+  matches: ResponseMatchResult[];
+  /** Parameters captured by named groups of the regex matches */
+  extractedParameters: { [key: string]: string };
+  /** Why the attestor would reject the response */
+  errors: string[];
+}
+
+/** Endpoint overrides for the services zkFetch talks to */
+export interface ReclaimEndpoints {
+  /** Attestor websocket URL (skips the feature-flag lookup when set) */
+  attestorUrl?: string;
+  /** Attestors that each sign every claim, instead of `attestorUrl` */
+  attestorUrls?: string[];
+  /** TEE service URLs (skips the feature-flag lookup when set) */
+  teeUrls?: TeeUrls;
+  /** Reclaim backend URL used for feature flags and application lookups */
+  backendUrl?: string;
+  /** Business logs backend URL */
+  logsUrl?: string;
+}
+
+/** ReclaimClient configuration */
+export interface ReclaimClientOptions {
+  /** Enable logging (default: false) */
+  logs?: boolean;
+  /** Endpoint overrides, e.g. for a self-hosted attestor */
+  endpoints?: ReclaimEndpoints;
+  /** Business log delivery mode (default: 'fire-and-forget') */
+  telemetry?: TelemetryMode;
+  /** Destination for business logs (default: Reclaim logs backend) */
+  logSink?: LogSink;
+  /** Default retry behaviour for every request */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Rejects requests once the session signature has been revoked */
+  revocationProvider?: RevocationListProvider;
+  /** Where signature-mode clients keep their owner key (default: localStorage, else memory) */
+  ownerKeyStore?: OwnerKeyStore;
+  /** Worker threads used for `useTee` requests */
+  teePool?: TeePoolOptions;
+  /** ZK circuits loaded before the first `useTee` request (failures then reject it), or false to skip loading */
+  teeCircuits?: LoadCircuitsOptions | false;
+  /** Runs TEE requests instead of libreclaim, e.g. a MockTeeBackend in tests */
+  teeBackend?: TeeBackend;
+  /** Attestors of `endpoints.attestorUrls` that must sign the same claim (default: all) */
+  attestorQuorum?: number;
+}
+
+/**
+ * Statement that two owner keys belong to the same user. Both keys sign the
+ * same message, which names the previous and the new owner address.
+ */
+export interface OwnerKeyLink {
+  applicationId: string;
+  previousOwner: string;
+  newOwner: string;
+  timestampS: number;
+  /** Signature by the previous owner key */
+  previousOwnerSignature: string;
+  /** Signature by the new owner key */
+  newOwnerSignature: string;
+}
+
+/** Persists the owner key a signature-mode client signs claims with */
+export interface OwnerKeyStore {
+  get(applicationId: string): Promise<string | undefined>;
+  set(applicationId: string, privateKey: string): Promise<void>;
+  delete?(applicationId: string): Promise<void>;
 }
 
 export interface SendLogsParams {
@@ -47,6 +244,11 @@ export interface SendLogsParams {
   applicationId: string;
 }
 
+/** Receives business log events emitted by zkFetch */
+export interface LogSink {
+  send(params: SendLogsParams): Promise<void>;
+}
+
 
 export interface Proof {
   identifier: string;
@@ -54,13 +256,55 @@ export interface Proof {
   signatures: string[];
   witnesses: WitnessData[];
   extractedParameterValues: any;
+  /** Path that produced the proof */
+  executionPath?: ExecutionPath;
+}
+
+/** Proof of a request made with an extraction schema */
+export interface ExtractedProof<S extends ExtractionSchema> extends Proof {
+  extracted: ExtractedValues<S>;
 }
 
 export interface WitnessData {
   id: string;
   url: string;
+  /** Timestamp this witness signed (default: claimData.timestampS) */
+  timestampS?: number;
+  /** Epoch this witness signed (default: claimData.epoch) */
+  epoch?: number;
+}
+
+/** A single request in a zkFetchMany batch */
+export interface ZkFetchRequest {
+  url: string;
+  options?: Options;
+  secretOptions?: secretOptions;
+}
+
+export interface ZkFetchManyOptions {
+  /** Maximum number of requests in flight at once (default: 5) */
+  concurrency?: number;
+  /** Cancel the remaining requests after the first failure (default: false) */
+  failFast?: boolean;
+  /** Cancels the whole batch */
+  signal?: AbortSignal;
+}
+
+export interface ZkFetchFulfilledResult {
+  status: 'fulfilled';
+  url: string;
+  value: Proof;
+}
+
+export interface ZkFetchRejectedResult {
+  status: 'rejected';
+  url: string;
+  reason: unknown;
 }
 
+/** Outcome of one request in a batch, in the order of the requests */
+export type ZkFetchResult = ZkFetchFulfilledResult | ZkFetchRejectedResult;
+
 
 export interface ProviderClaimData {
   provider: string;
@@ -72,19 +316,195 @@ export interface ProviderClaimData {
   epoch: number;
 }
 
+export interface VerifyProofOptions {
+  /** Attestor addresses whose signatures are accepted */
+  trustedWitnesses: string[];
+  /** Owner the claim must belong to, directly or through `ownerLinks` */
+  expectedOwner?: string;
+  /** Rotation statements linking `claimData.owner` to `expectedOwner`, oldest first */
+  ownerLinks?: OwnerKeyLink[];
+  /**
+   * Distinct trusted witnesses that must have signed the claim. Signatures
+   * that fail a check are still reported but no longer invalidate the proof.
+   * Default: every signature must pass.
+   */
+  threshold?: number;
+}
+
+export interface ProofVerificationFailure {
+  reason: ProofVerificationFailureReason;
+  message: string;
+  /** Index into `signatures`/`witnesses` the failure refers to, if any */
+  index?: number;
+}
+
+export interface ProofVerificationResult {
+  isValid: boolean;
+  /** Identifier recomputed from the claim's provider, parameters and context */
+  identifier: string;
+  /** Recovered signer address per entry in `signatures` (null if unrecoverable) */
+  signers: (string | null)[];
+  failures: ProofVerificationFailure[];
+}
+
+
 
+/** Optional restrictions a session signature places on requests */
+export interface SignatureScope {
+  /** HTTP methods allowed for every allowed URL (default: any) */
+  allowedMethods?: string[];
+  /** HTTP methods per `allowedUrls` pattern, taking precedence over `allowedMethods` */
+  methodsByPattern?: { [pattern: string]: string[] };
+  /** Maximum request body size in bytes, with params substituted */
+  maxBodyBytes?: number;
+  /** Requests must set `context.contextAddress` to this address */
+  contextAddress?: string;
+}
 
-export interface SignatureConfig {
+/** EIP-712 domain of version 2 session signatures */
+export interface SessionSignatureDomain {
+  name: string;
+  version: string;
+  chainId?: number;
+}
+
+/** Key that can issue session signatures, e.g. an ethers v5 Signer backed by a wallet */
+export interface SessionSigner {
+  getAddress(): Promise<string>;
+  signMessage(message: string | Uint8Array): Promise<string>;
+  _signTypedData(
+    domain: SessionSignatureDomain,
+    types: { [type: string]: { name: string; type: string }[] },
+    value: { [key: string]: unknown }
+  ): Promise<string>;
+}
+
+export interface SignatureConfig extends SignatureScope {
   applicationId: string;
-  applicationSecret: string;
+  /** Required unless `signer` is set */
+  applicationSecret?: string;
+  /** Signs the token instead of `applicationSecret`; its address must be the applicationId */
+  signer?: SessionSigner;
+  /** Token format (default: 1) */
+  version?: SessionSignatureVersion;
+  /** Chain the token is signed for, added to the EIP-712 domain (version 2 only) */
+  chainId?: number;
   allowedUrls: string[];
   expiresAt?: number;
+  /** Number of times the token can be redeemed; a nonce is generated when `nonce` is not set */
+  maxUses?: number;
+  /** Unique token ID used to count redemptions (default maxUses: 1) */
+  nonce?: string;
+  /** ID used to revoke the token (default: random UUID) */
+  tokenId?: string;
+  /** Address allowed to derive narrower tokens with deriveSessionSignature */
+  delegateAddress?: string;
+  /** Reject allowedUrls with lint warnings instead of logging them (default: false) */
+  strictUrlPatterns?: boolean;
+  /** Endpoint overrides for application lookup and logs */
+  endpoints?: ReclaimEndpoints;
+  /** Business log delivery mode (default: 'fire-and-forget') */
+  telemetry?: TelemetryMode;
+  /** Destination for business logs (default: Reclaim logs backend) */
+  logSink?: LogSink;
 }
 
-export interface SignatureData {
+export interface SignatureData extends SignatureScope {
   applicationId: string;
   allowedUrls: string[];
   expiresAt: number;
+  /** Set for version 2 (EIP-712) tokens */
+  version?: SessionSignatureVersion;
+  /** EIP-712 domain chainId of version 2 tokens signed for one chain */
+  chainId?: number;
+  /** Absent in tokens created before token IDs were introduced */
+  tokenId?: string;
+  nonce?: string;
+  maxUses?: number;
+  delegateAddress?: string;
+  /** Token a delegated token was derived from */
+  parent?: string;
+}
+
+/** Restrictions of a delegated token; each must be within the parent's */
+export interface DelegatedSignatureScope {
+  allowedUrls: string[];
+  /** Default: the parent's expiry */
+  expiresAt?: number;
+  allowedMethods?: string[];
+  maxBodyBytes?: number;
+  contextAddress?: string;
+  /** Address allowed to derive further tokens from this one */
+  delegateAddress?: string;
+  /** ID used to revoke the token (default: random UUID) */
+  tokenId?: string;
+  /** Reject allowedUrls with lint warnings instead of logging them (default: false) */
+  strictUrlPatterns?: boolean;
+}
+
+/** Compiled allowedUrls entry */
+export interface UrlPattern {
+  source: string;
+  kind: UrlPatternKind;
+  /** Whether the pattern allows the URL */
+  test(url: string): boolean;
+}
+
+/** Problem found in an allowedUrls entry by lintAllowedUrls */
+export interface UrlPatternLintIssue {
+  pattern: string;
+  code: UrlPatternLintCode;
+  severity: UrlPatternLintSeverity;
+  message: string;
+}
+
+/** Counts redemptions of session signatures */
+export interface NonceStore {
+  /**
+   * Atomically increments the use count of a key
+   * @param key - Application and nonce of the token
+   * @param expiresAt - Unix time (s) after which the count may be discarded
+   * @returns The use count including this use
+   */
+  increment(key: string, expiresAt: number): Promise<number>;
+}
+
+/** Revoked token IDs of an application, signed with its application secret */
+export interface SignedRevocationList {
+  applicationId: string;
+  revokedTokenIds: string[];
+  /** Unix time (s) the list was created */
+  issuedAt: number;
+  signature: string;
+}
+
+/** Supplies the current revocation list of an application, e.g. fetched on demand */
+export interface RevocationListProvider {
+  getRevocationList(
+    applicationId: string
+  ): SignedRevocationList | undefined | Promise<SignedRevocationList | undefined>;
+}
+
+export interface VerifySessionSignatureOptions {
+  /** Rejects tokens whose tokenId is in this list */
+  revocationList?: SignedRevocationList;
+}
+
+export interface CheckSessionSignatureOptions extends VerifySessionSignatureOptions {
+  /** Rejects tokens whose tokenId is in the provider's current list, asked on every check */
+  revocationProvider?: RevocationListProvider;
+}
+
+export interface RedeemSessionSignatureOptions extends CheckSessionSignatureOptions {
+  /** Where uses are counted */
+  store: NonceStore;
+}
+
+export interface RedeemedSessionSignature {
+  signatureData: SignatureData;
+  /** Number of uses including this one */
+  uses: number;
+  remainingUses: number;
 }
 
 // TEE SDK Interfaces
@@ -130,6 +550,90 @@ export interface TeeReclaimConfig {
   [key: string]: unknown;
 }
 
+/**
+ * Runs the TEE protocol for ReclaimSDK. The default backend runs libreclaim
+ * on worker threads; MockTeeBackend runs without native code.
+ */
+export interface TeeBackend {
+  /** Rejects with a ReclaimProtocolError when the protocol fails */
+  executeProtocol(
+    request: TeeProviderRequest,
+    config?: TeeReclaimConfig,
+    signal?: AbortSignal
+  ): Promise<TeeProtocolResult>;
+  close?(): Promise<void>;
+}
+
+/** Deterministic results and simulated failures of a MockTeeBackend */
+export interface MockTeeBackendOptions {
+  /** Key signing the claims (default: a well-known development key) */
+  privateKey?: string;
+  /** Claim owner (default: the signing key's address) */
+  owner?: string;
+  /** Claim timestamp in seconds (default: 1700000000) */
+  timestampS?: number;
+  /** Claim epoch (default: 1) */
+  epoch?: number;
+  /** Simulated execution time; longer than config.timeout_ms fails with TIMEOUT */
+  latencyMs?: number;
+  /** Fail every execution with this libreclaim error code */
+  error?: ReclaimError;
+  /** Reported as extracted from the response */
+  extractedParameters?: { [key: string]: string };
+}
+
+/** Worker thread pool running TEE protocol executions */
+export interface TeePoolOptions {
+  /** Maximum number of concurrent executions (default: 4) */
+  size?: number;
+  /** Worker script (default: tee-worker.js next to the bundle, or tee-worker.ts from source) */
+  workerPath?: string;
+}
+
+/** Where ReclaimSDK.loadCircuits finds the circuit files and how it verifies them */
+export interface LoadCircuitsOptions {
+  /** Directory populated by `npm run download:circuits` (default: resources of the installed zk-symmetric-crypto) */
+  resourcesDir?: string;
+  /** Algorithms to load (default: all) */
+  algorithms?: AlgorithmID[];
+  /** Expected SHA-256 hex digests by file path relative to resourcesDir */
+  hashes?: { [file: string]: string };
+  /**
+   * `sha256sum`-format file listing expected digests, relative to resourcesDir
+   * or absolute (default: SHA256SUMS written by `npm run download:circuits`)
+   */
+  checksumFile?: string;
+  /** Refuse files without an expected digest; false loads them unverified (default: true) */
+  verify?: boolean;
+}
+
+/** Outcome of loading the circuit of one algorithm */
+export interface CircuitLoadStatus {
+  algorithmId: AlgorithmID;
+  name: string;
+  loaded: boolean;
+  /** Whether both files matched an expected digest */
+  verified: boolean;
+  error?: string;
+}
+
+/** Result of ReclaimSDK.healthCheck */
+export interface TeeHealthReport {
+  /** Library loaded, exports every symbol and meets the minimum version */
+  healthy: boolean;
+  libraryPath?: string;
+  /** Reported by reclaim_get_version() */
+  version?: string;
+  minVersion: string;
+  versionSupported: boolean;
+  /** Whether the library exports each symbol the bindings use */
+  symbols: { [name: string]: boolean };
+  /** Initialization state of every algorithm */
+  circuits: CircuitLoadStatus[];
+  /** Why the library is not healthy */
+  error?: string;
+}
+
 /** TEE URLs from feature flags */
 export interface TeeUrls {
   teekUrl: string;
@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { InvalidParamError, NonceStoreCorruptedError, NonceStoreLockTimeoutError } from './errors';
+import { NonceStore } from './interfaces';
+import { sleep } from './utils';
+
+interface NonceEntry {
+  uses: number;
+  expiresAt: number;
+}
+
+type NonceEntries = { [key: string]: NonceEntry };
+
+// drops entries of expired tokens, which can no longer be redeemed anyway
+function pruneExpired(entries: NonceEntries, now: number): void {
+  for (const key of Object.keys(entries)) {
+    if (entries[key].expiresAt <= now) {
+      delete entries[key];
+    }
+  }
+}
+
+/**
+ * Counts uses in memory. Only suitable for a single backend process.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private entries: NonceEntries = {};
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    pruneExpired(this.entries, Math.floor(Date.now() / 1000));
+    const entry = this.entries[key] || (this.entries[key] = { uses: 0, expiresAt });
+    entry.uses += 1;
+    return entry.uses;
+  }
+}
+
+export interface FileNonceStoreOptions {
+  /** JSON file the use counts are kept in */
+  path: string;
+  /** How long to wait for another process holding the lock, in ms (default: 5000) */
+  lockTimeoutMs?: number;
+}
+
+// a lock older than this is left over from a crashed process
+const STALE_LOCK_MS = 30000;
+
+/**
+ * Removes a lock file if it holds `token`. The file is first renamed to
+ * `asidePath`, so only one process can take it, and it is put back if it
+ * turns out to be another process's lock.
+ * @returns Whether the lock was removed
+ */
+async function removeLockIfHeldBy(lockPath: string, token: string, asidePath: string): Promise<boolean> {
+  try {
+    await fs.rename(lockPath, asidePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+
+  const holder = await fs.readFile(asidePath, 'utf8').catch(() => undefined);
+  if (holder !== token) {
+    // fails if yet another process created a lock in the meantime
+    await fs.link(asidePath, lockPath).catch(() => undefined);
+  }
+  await fs.rm(asidePath, { force: true });
+  return holder === token;
+}
+
+/**
+ * Counts uses in a JSON file, guarded by a lock file so several processes on
+ * the same machine can share it
+ */
+export class FileNonceStore implements NonceStore {
+  private filePath: string;
+  private lockTimeoutMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileNonceStoreOptions) {
+    if (!options?.path || typeof options.path !== 'string') {
+      throw new InvalidParamError('path must be a non-empty string');
+    }
+    this.filePath = options.path;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+  }
+
+  increment(key: string, expiresAt: number): Promise<number> {
+    // serialize increments within this process, the lock file covers other processes
+    const result = this.queue.then(() => this.withLock(async () => {
+      const entries = await this.read();
+      pruneExpired(entries, Math.floor(Date.now() / 1000));
+      const entry = entries[key] || (entries[key] = { uses: 0, expiresAt });
+      entry.uses += 1;
+      await this.write(entries);
+      return entry.uses;
+    }));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<NonceEntries> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    // never start over from an empty store, that would allow replays
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new NonceStoreCorruptedError(
+        `Nonce store ${this.filePath} is corrupted (${(error as Error).message}). Restore it from a backup or delete it`,
+        { cause: error }
+      );
+    }
+  }
+
+  private async write(entries: NonceEntries): Promise<void> {
+    // write then rename, so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async withLock<T>(run: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // identifies this holder in the lock file
+    const token = crypto.randomBytes(16).toString('hex');
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        await fs.writeFile(lockPath, token, { flag: 'wx', mode: 0o600 });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        const holder = await fs.readFile(lockPath, 'utf8').catch(() => undefined);
+        const stat = await fs.stat(lockPath).catch(() => undefined);
+        if (holder !== undefined && stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await removeLockIfHeldBy(lockPath, holder, `${lockPath}.${token}.stale`);
+          continue;
+        }
+        if (Date.now() >= deadline) {
+          throw new NonceStoreLockTimeoutError(`Timed out waiting for nonce store lock ${lockPath}`);
+        }
+        await sleep(20);
+      }
+    }
+
+    try {
+      return await run();
+    } finally {
+      // the lock may have been taken over as stale if run() was very slow
+      await removeLockIfHeldBy(lockPath, token, `${lockPath}.${token}.release`);
+    }
+  }
+}
+
+export interface CallbackNonceStoreOptions {
+  increment(key: string, expiresAt: number): Promise<number> | number;
+}
+
+/**
+ * Delegates to a caller-provided counter, e.g. a Redis INCR or an SQL upsert.
+ * The callback must increment atomically.
+ */
+export class CallbackNonceStore implements NonceStore {
+  private callbacks: CallbackNonceStoreOptions;
+
+  constructor(callbacks: CallbackNonceStoreOptions) {
+    if (typeof callbacks?.increment !== 'function') {
+      throw new InvalidParamError('increment callback is required');
+    }
+    this.callbacks = callbacks;
+  }
+
+  async increment(key: string, expiresAt: number): Promise<number> {
+    return this.callbacks.increment(key, expiresAt);
+  }
+}
@@ -0,0 +1,415 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import P from "pino";
+import { InvalidParamError } from './errors';
+import { OwnerKeyLink, OwnerKeyStore } from './interfaces';
+const logger = P();
+
+const STORAGE_KEY_PREFIX = 'reclaim_';
+
+function storageKey(applicationId: string): string {
+  return `${STORAGE_KEY_PREFIX}${applicationId}`;
+}
+
+/**
+ * Keeps owner keys in memory for the lifetime of the process
+ */
+export class MemoryOwnerKeyStore implements OwnerKeyStore {
+  private keys = new Map<string, string>();
+
+  async get(applicationId: string): Promise<string | undefined> {
+    return this.keys.get(applicationId);
+  }
+
+  async set(applicationId: string, privateKey: string): Promise<void> {
+    this.keys.set(applicationId, privateKey);
+  }
+
+  async delete(applicationId: string): Promise<void> {
+    this.keys.delete(applicationId);
+  }
+}
+
+/**
+ * Persists owner keys in the browser's localStorage, unencrypted
+ */
+export class LocalStorageOwnerKeyStore implements OwnerKeyStore {
+  async get(applicationId: string): Promise<string | undefined> {
+    return localStorage.getItem(storageKey(applicationId)) ?? undefined;
+  }
+
+  async set(applicationId: string, privateKey: string): Promise<void> {
+    localStorage.setItem(storageKey(applicationId), privateKey);
+  }
+
+  async delete(applicationId: string): Promise<void> {
+    localStorage.removeItem(storageKey(applicationId));
+  }
+}
+
+export interface IndexedDbOwnerKeyStoreOptions {
+  /** Default: 'reclaim' */
+  databaseName?: string;
+  /** Default: 'owner-keys' */
+  storeName?: string;
+}
+
+/**
+ * Persists owner keys in IndexedDB, for browsers where localStorage is unavailable
+ */
+export class IndexedDbOwnerKeyStore implements OwnerKeyStore {
+  private databaseName: string;
+  private storeName: string;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(options: IndexedDbOwnerKeyStoreOptions = {}) {
+    this.databaseName = options.databaseName || 'reclaim';
+    this.storeName = options.storeName || 'owner-keys';
+  }
+
+  async get(applicationId: string): Promise<string | undefined> {
+    const value = await this.request('readonly', store => store.get(applicationId));
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  async set(applicationId: string, privateKey: string): Promise<void> {
+    await this.request('readwrite', store => store.put(privateKey, applicationId));
+  }
+
+  async delete(applicationId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(applicationId));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export interface FileOwnerKeyStoreOptions {
+  /** Directory the encrypted key files are written to */
+  directory: string;
+  /** Passphrase the keys are encrypted with */
+  passphrase: string;
+}
+
+interface EncryptedKeyFile {
+  version: 1;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+}
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, 32, params, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+/**
+ * Persists owner keys on disk, encrypted at rest with a passphrase
+ * (scrypt key derivation, AES-256-GCM)
+ */
+export class FileOwnerKeyStore implements OwnerKeyStore {
+  private directory: string;
+  private passphrase: string;
+
+  constructor(options: FileOwnerKeyStoreOptions) {
+    if (!options?.directory || typeof options.directory !== 'string') {
+      throw new InvalidParamError('directory must be a non-empty string');
+    }
+    if (!options.passphrase || typeof options.passphrase !== 'string') {
+      throw new InvalidParamError('passphrase must be a non-empty string');
+    }
+    this.directory = options.directory;
+    this.passphrase = options.passphrase;
+  }
+
+  async get(applicationId: string): Promise<string | undefined> {
+    let file: EncryptedKeyFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath(applicationId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      const { N, r, p, salt } = file.kdf;
+      const key = await deriveKey(this.passphrase, Buffer.from(salt, 'hex'), { N, r, p });
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'hex'));
+      decipher.setAuthTag(Buffer.from(file.cipher.tag, 'hex'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(file.ciphertext, 'hex')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new InvalidParamError('Unable to decrypt owner key: wrong passphrase or corrupted key file');
+    }
+  }
+
+  async set(applicationId: string, privateKey: string): Promise<void> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await deriveKey(this.passphrase, salt, SCRYPT_PARAMS);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+
+    const file: EncryptedKeyFile = {
+      version: 1,
+      kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: salt.toString('hex') },
+      cipher: { name: 'aes-256-gcm', iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(applicationId), JSON.stringify(file), { mode: 0o600 });
+  }
+
+  async delete(applicationId: string): Promise<void> {
+    await fs.rm(this.filePath(applicationId), { force: true });
+  }
+
+  private filePath(applicationId: string): string {
+    return path.join(this.directory, `${storageKey(applicationId).replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+  }
+}
+
+export interface CallbackOwnerKeyStoreOptions {
+  get(applicationId: string): Promise<string | undefined> | string | undefined;
+  set(applicationId: string, privateKey: string): Promise<void> | void;
+  delete?(applicationId: string): Promise<void> | void;
+}
+
+/**
+ * Delegates to caller-provided callbacks, e.g. a keychain or secure enclave
+ */
+export class CallbackOwnerKeyStore implements OwnerKeyStore {
+  private callbacks: CallbackOwnerKeyStoreOptions;
+
+  constructor(callbacks: CallbackOwnerKeyStoreOptions) {
+    if (typeof callbacks?.get !== 'function' || typeof callbacks.set !== 'function') {
+      throw new InvalidParamError('get and set callbacks are required');
+    }
+    this.callbacks = callbacks;
+  }
+
+  async get(applicationId: string): Promise<string | undefined> {
+    return (await this.callbacks.get(applicationId)) ?? undefined;
+  }
+
+  async set(applicationId: string, privateKey: string): Promise<void> {
+    await this.callbacks.set(applicationId, privateKey);
+  }
+
+  async delete(applicationId: string): Promise<void> {
+    await this.callbacks.delete?.(applicationId);
+  }
+}
+
+/**
+ * Default store: localStorage in browsers. Elsewhere a new memory store, so
+ * each client gets its own temporary owner key.
+ */
+export function getDefaultOwnerKeyStore(): OwnerKeyStore {
+  if (typeof localStorage !== 'undefined') {
+    try {
+      // accessing localStorage throws in some sandboxed iframes
+      localStorage.getItem(STORAGE_KEY_PREFIX);
+      return new LocalStorageOwnerKeyStore();
+    } catch {
+      logger.warn('localStorage not accessible, keeping the owner key in memory');
+    }
+  }
+  return new MemoryOwnerKeyStore();
+}
+
+/**
+ * Validates a private key, returning it 0x-prefixed
+ * @throws {InvalidParamError} If the key is not a valid private key
+ */
+export function normalizeOwnerKey(privateKey: string): string {
+  try {
+    return new ethers.Wallet(privateKey).privateKey;
+  } catch {
+    throw new InvalidParamError('Invalid owner key');
+  }
+}
+
+/**
+ * Loads the owner key for an application from the store, creating and
+ * storing a new one if there is none or the stored one is invalid
+ */
+export async function getOrCreateOwnerKey(applicationId: string, store: OwnerKeyStore): Promise<string> {
+  const stored = await store.get(applicationId);
+  if (stored) {
+    try {
+      const ownerKey = normalizeOwnerKey(stored);
+      logger.info('Using existing owner key');
+      return ownerKey;
+    } catch {
+      // Invalid key, replace it
+      await store.delete?.(applicationId);
+    }
+  }
+
+  const ownerKey = ethers.Wallet.createRandom().privateKey;
+  try {
+    await store.set(applicationId, ownerKey);
+    logger.info('Created owner key');
+  } catch (error) {
+    logger.warn({ err: error }, 'Could not store owner key, will be temporary');
+  }
+  return ownerKey;
+}
+
+/**
+ * Builds the message both keys sign when an owner key is rotated
+ */
+export function createOwnerKeyLinkMessage(
+  link: Pick<OwnerKeyLink, 'applicationId' | 'previousOwner' | 'newOwner' | 'timestampS'>
+): string {
+  return [
+    'Reclaim owner key rotation',
+    `applicationId: ${link.applicationId.toLowerCase()}`,
+    `previousOwner: ${link.previousOwner.toLowerCase()}`,
+    `newOwner: ${link.newOwner.toLowerCase()}`,
+    `timestampS: ${link.timestampS}`,
+  ].join('\n');
+}
+
+/**
+ * Links two owner keys: the previous key signs the new address and the new
+ * key signs the previous address, through one shared statement
+ * @param applicationId - Application the keys are used with
+ * @param previousKey - Owner key being retired
+ * @param newKey - Owner key replacing it
+ */
+export async function createOwnerKeyLink(
+  applicationId: string,
+  previousKey: string,
+  newKey: string
+): Promise<OwnerKeyLink> {
+  const previousWallet = new ethers.Wallet(normalizeOwnerKey(previousKey));
+  const newWallet = new ethers.Wallet(normalizeOwnerKey(newKey));
+  if (previousWallet.address === newWallet.address) {
+    throw new InvalidParamError('The new owner key must differ from the previous one');
+  }
+
+  const statement = {
+    applicationId,
+    previousOwner: previousWallet.address.toLowerCase(),
+    newOwner: newWallet.address.toLowerCase(),
+    timestampS: Math.floor(Date.now() / 1000),
+  };
+  const message = createOwnerKeyLinkMessage(statement);
+  return {
+    ...statement,
+    previousOwnerSignature: await previousWallet.signMessage(message),
+    newOwnerSignature: await newWallet.signMessage(message),
+  };
+}
+
+/**
+ * Returns why a link is invalid, or undefined if both signatures match
+ */
+function getOwnerKeyLinkError(link: OwnerKeyLink): string | undefined {
+  let message: string;
+  try {
+    message = createOwnerKeyLinkMessage(link);
+  } catch {
+    return 'Malformed owner key link';
+  }
+
+  const signers: [string, string, string][] = [
+    ['previous', link.previousOwner, link.previousOwnerSignature],
+    ['new', link.newOwner, link.newOwnerSignature],
+  ];
+  for (const [role, owner, signature] of signers) {
+    let signer: string;
+    try {
+      signer = ethers.utils.verifyMessage(message, signature).toLowerCase();
+    } catch {
+      return `Unable to recover the ${role} owner from its link signature`;
+    }
+    if (signer !== owner.toLowerCase()) {
+      return `Link signature for the ${role} owner ${owner} was produced by ${signer}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Verifies both signatures of an owner key link
+ */
+export function verifyOwnerKeyLink(link: OwnerKeyLink): boolean {
+  return getOwnerKeyLinkError(link) === undefined;
+}
+
+/**
+ * Checks that `links` connect `owner` to `currentOwner`, oldest link first
+ * @returns Why the chain is invalid, or undefined if it is valid
+ */
+export function getOwnerKeyChainError(
+  owner: string,
+  currentOwner: string,
+  links: OwnerKeyLink[] = []
+): string | undefined {
+  let expected = owner.toLowerCase();
+  let applicationId: string | undefined;
+  for (const [index, link] of links.entries()) {
+    if (link?.previousOwner?.toLowerCase() !== expected) {
+      return `Owner link ${index} does not continue from ${expected}`;
+    }
+    const linkError = getOwnerKeyLinkError(link);
+    if (linkError) {
+      return `Owner link ${index}: ${linkError}`;
+    }
+    if (applicationId !== undefined && link.applicationId.toLowerCase() !== applicationId) {
+      return `Owner link ${index} belongs to a different application`;
+    }
+    applicationId = link.applicationId.toLowerCase();
+    expected = link.newOwner.toLowerCase();
+  }
+
+  if (expected !== currentOwner.toLowerCase()) {
+    return `Owner ${owner} is not linked to ${currentOwner}`;
+  }
+  return undefined;
+}
+
+/**
+ * Verifies that `owner` is `currentOwner` or was rotated into it through `links`
+ */
+export function verifyOwnerKeyChain(
+  owner: string,
+  currentOwner: string,
+  links: OwnerKeyLink[] = []
+): boolean {
+  return getOwnerKeyChainError(owner, currentOwner, links) === undefined;
+}
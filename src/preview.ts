@@ -0,0 +1,241 @@
+import { providers, proto } from '@reclaimprotocol/attestor-core';
+import P from 'pino';
+import { AbortError, InvalidParamError, NetworkError, TimeoutError } from './errors';
+import {
+  EncodedOptions,
+  ResponseMatchResult,
+  RevealedRange,
+  secretOptions,
+  ZkFetchPreview,
+} from './interfaces';
+import { HttpMethod } from './types';
+import { raceWithSignal } from './utils';
+
+const PARAM_TEMPLATE = /{{([^{}]+)}}/g;
+
+// the http provider logs the whole response when a redaction fails
+const providerLogger = P({ level: 'silent' });
+
+type Range = { start: number; end: number };
+type ResponseRedaction = NonNullable<secretOptions['responseRedactions']>[number];
+
+/* Replaces {{param}} templates; missing params are kept unless `required` */
+function substituteParams(value: string, paramValues: { [key: string]: string }, required: boolean): string {
+  return value.replace(PARAM_TEMPLATE, (match, name: string) => {
+    if (name in paramValues) {
+      return paramValues[name];
+    }
+    if (required) {
+      throw new InvalidParamError(`parameter's "${name}" value not found in paramValues`);
+    }
+    return match;
+  });
+}
+
+/* One char per byte, the representation the attestor runs redactions and matches on */
+function toBinaryString(bytes: Uint8Array): string {
+  let str = '';
+  for (const byte of bytes) {
+    str += String.fromCharCode(byte);
+  }
+  return str;
+}
+
+function fromBinaryString(str: string): string {
+  return new TextDecoder().decode(Uint8Array.from(str, char => char.charCodeAt(0)));
+}
+
+/* The attestor's regex flags, without its optional RE2 engine */
+function makeRegex(value: string): RegExp {
+  return new RegExp(value, 'sgi');
+}
+
+/**
+ * Body ranges revealed by a redaction, as computed by the attestor's http
+ * provider on a response carrying the body. Hashed ranges count as revealed.
+ */
+function getRevealedRanges(body: Uint8Array, redaction: ResponseRedaction): Range[] {
+  // the status line does not affect body ranges; a 2xx one lets redactions run for any status
+  const head = new TextEncoder().encode(`HTTP/1.1 200 OK\r\nContent-Length: ${body.length}\r\n\r\n`);
+  const response = new Uint8Array(head.length + body.length);
+  response.set(head);
+  response.set(body, head.length);
+
+  const hidden = providers.http.getResponseRedactions?.({
+    response,
+    params: { url: 'https://preview.invalid', method: 'GET', responseMatches: [], responseRedactions: [redaction] },
+    logger: providerLogger,
+    ctx: { version: proto.AttestorVersion.ATTESTOR_VERSION_2_0_1 },
+  }) || [];
+
+  const ranges: Range[] = [];
+  let position = 0;
+  for (const slice of [...hidden].sort((a, b) => a.fromIndex - b.fromIndex)) {
+    if ('hash' in slice && slice.hash) {
+      continue;
+    }
+    const start = Math.max(slice.fromIndex - head.length, 0);
+    const end = Math.max(slice.toIndex - head.length, 0);
+    if (start > position) {
+      ranges.push({ start: position, end: start });
+    }
+    position = Math.max(position, end);
+  }
+  if (position < body.length) {
+    ranges.push({ start: position, end: body.length });
+  }
+  return ranges;
+}
+
+function mergeRanges(ranges: Range[]): Range[] {
+  const merged: Range[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Performs the request locally and applies the attestor's redaction and
+ * response match rules to the response, without creating a claim.
+ *
+ * Offsets are byte offsets into the response body. Geolocation is not
+ * applied and chunked transfer encoding is not reproduced.
+ * @param url - URL to fetch
+ * @param options - Public request options
+ * @param secretOptions - Private request options
+ * @param signal - Cancels the request
+ */
+export async function previewRequest(
+  url: string,
+  options?: EncodedOptions,
+  secretOptions?: secretOptions,
+  signal?: AbortSignal
+): Promise<ZkFetchPreview> {
+  const publicParams = options?.paramValues || {};
+  const requestParams = { ...secretOptions?.paramValues, ...publicParams };
+  const method = options?.method || HttpMethod.GET;
+
+  const headers: { [key: string]: string } = { 'Accept-Encoding': 'identity' };
+  for (const [key, value] of Object.entries({ ...options?.headers, ...secretOptions?.headers })) {
+    headers[key] = substituteParams(value, requestParams, true);
+  }
+  if (secretOptions?.cookieStr) {
+    headers['Cookie'] = secretOptions.cookieStr;
+  }
+
+  let response: Response;
+  let bytes: Uint8Array;
+  try {
+    response = await raceWithSignal(fetch(substituteParams(url, requestParams, true), {
+      method,
+      headers,
+      body: options?.body ? substituteParams(options.body, requestParams, true) : undefined,
+      signal,
+    }), signal);
+    bytes = new Uint8Array(await raceWithSignal(response.arrayBuffer(), signal));
+  } catch (error) {
+    if (error instanceof AbortError || error instanceof TimeoutError || error instanceof InvalidParamError) {
+      throw error;
+    }
+    throw new NetworkError(`Failed to fetch ${url}: ${(error as Error).message}`);
+  }
+
+  const body = toBinaryString(bytes);
+  const errors: string[] = [];
+
+  if (response.status < 200 || response.status >= 300) {
+    errors.push(`Expected status 2xx, got ${response.status} (${response.statusText})`);
+  }
+
+  // without redactions the whole body is revealed
+  const redactions = secretOptions?.responseRedactions || [];
+  let ranges: Range[] = redactions.length ? [] : [{ start: 0, end: body.length }];
+  for (const redaction of redactions) {
+    try {
+      const substituted = { ...redaction };
+      for (const key of ['jsonPath', 'xPath', 'regex'] as const) {
+        if (substituted[key]) {
+          substituted[key] = substituteParams(substituted[key]!, publicParams, false);
+        }
+      }
+      ranges.push(...getRevealedRanges(bytes, substituted));
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  ranges = mergeRanges(ranges);
+
+  let redactedBinary = '';
+  let position = 0;
+  for (const range of ranges) {
+    redactedBinary += '*'.repeat(range.start - position) + body.slice(range.start, range.end);
+    position = range.end;
+  }
+  redactedBinary += '*'.repeat(body.length - position);
+
+  // the attestor drops runs of redacted bytes before matching
+  const matchInput = redactedBinary.replace(/(\*){3,}/g, '');
+  const matches: ResponseMatchResult[] = [];
+  const extractedParameters: { [key: string]: string } = {};
+  const responseMatches = secretOptions?.responseMatches || [{ type: 'regex', value: '(?<data>.*)' }];
+
+  // same checks and messages as the attestor's http provider
+  for (const { type, value: rawValue, invert } of responseMatches) {
+    const value = substituteParams(rawValue, publicParams, false);
+    const inverted = Boolean(invert);
+    if (type === 'contains') {
+      const passed = matchInput.includes(value) !== inverted;
+      if (!passed) {
+        errors.push(`Invalid receipt. Response ${inverted ? 'contains' : 'does not contain'} "${value}"`);
+      }
+      matches.push({ type, value, invert: inverted, passed });
+      continue;
+    }
+
+    if (type !== 'regex') {
+      errors.push(`Invalid response match type ${type}`);
+      matches.push({ type, value, invert: inverted, passed: false });
+      continue;
+    }
+
+    const result: RegExpExecArray | null = makeRegex(value).exec(matchInput);
+    const passed = (result !== null) !== inverted;
+    matches.push({ type, value, invert: inverted, passed });
+    if (!passed) {
+      errors.push(`Invalid receipt. Regex "${value}" ${inverted ? 'matched' : "didn't match"}`);
+    }
+    if (!result) {
+      continue;
+    }
+    for (const [name, group] of Object.entries(result.groups || {})) {
+      if (name in extractedParameters) {
+        errors.push(`Duplicate parameter ${name}`);
+        continue;
+      }
+      extractedParameters[name] = fromBinaryString(group ?? '');
+    }
+  }
+
+  const revealed: RevealedRange[] = ranges.map(range => ({
+    fromIndex: range.start,
+    toIndex: range.end,
+    text: fromBinaryString(body.slice(range.start, range.end)),
+  }));
+
+  return {
+    ok: errors.length === 0,
+    status: response.status,
+    body: fromBinaryString(body),
+    revealed,
+    redactedBody: fromBinaryString(redactedBinary),
+    matches,
+    extractedParameters,
+    errors,
+  };
+}
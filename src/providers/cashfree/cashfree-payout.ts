@@ -143,7 +143,7 @@ export class CashfreePayoutClient {
     this.reclaimClient = new ReclaimClient(
       config.applicationId,
       config.applicationSecret,
-      config.logs,
+      { logs: config.logs, endpoints: config.endpoints, attestorQuorum: config.attestorQuorum },
     );
 
     this.environment = config.environment || 'production';
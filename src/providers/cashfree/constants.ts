@@ -27,7 +27,7 @@ export const DEFAULT_API_VERSION = '2024-01-01';
 
 /**
  * Pre-built URL patterns for signature-based auth (frontend mode).
- * These match the wildcard format accepted by isUrlAllowed() in utils.ts.
+ * These match the wildcard format accepted by isUrlAllowed() in url-pattern.ts.
  */
 export const CASHFREE_ALLOWED_URL_PATTERNS = {
   production: [
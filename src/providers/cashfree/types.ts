@@ -1,4 +1,4 @@
-import { Proof } from '../../interfaces';
+import { Proof, ReclaimEndpoints } from '../../interfaces';
 
 /** Cashfree API environment */
 export type CashfreeEnvironment = 'production' | 'sandbox';
@@ -56,6 +56,10 @@ export interface CashfreePayoutConfig {
   useTee?: boolean;
   /** Geolocation for requests (ISO country code) */
   geoLocation?: string;
+  /** Endpoint overrides, e.g. several attestors in `attestorUrls` */
+  endpoints?: ReclaimEndpoints;
+  /** Attestors of `endpoints.attestorUrls` that must sign each proof (default: all) */
+  attestorQuorum?: number;
 }
 
 /** Options for proving a transfer status */
@@ -0,0 +1,171 @@
+import { RetryPolicy } from './interfaces';
+import {
+  AbortError,
+  InvalidParamError,
+  NetworkError,
+  TimeoutError,
+  ZkFetchError,
+  toZkFetchError,
+} from './errors';
+import { sleep } from './utils';
+
+const BACKOFF_STRATEGIES = ['constant', 'linear', 'exponential'];
+const JITTER_STRATEGIES = ['none', 'full', 'equal'];
+
+/**
+ * Default retry classification
+ *
+ * Errors are mapped with `toZkFetchError` and retried when the result is
+ * marked `retryable`: attestor connection, TLS handshake and upstream
+ * 5xx/429 failures are transient, while validation errors, response
+ * match/redaction failures and upstream 4xx responses are not.
+ * Unrecognized errors are retried because `toZkFetchError` wraps them in a
+ * retryable ClaimCreationError. Errors it passes through unchanged
+ * (validation, cancellation and application errors) are not retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+
+  const classified = toZkFetchError(error);
+  if (classified instanceof ZkFetchError) {
+    return classified.retryable;
+  }
+
+  // Validation, cancellation and application errors, returned as they are
+  return false;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoff: 'exponential',
+  jitter: 'full',
+  shouldRetry: (error) => isRetryableError(error),
+};
+
+function setIfDefined<K extends keyof RetryPolicy>(policy: RetryPolicy, override: Partial<RetryPolicy>, key: K): void {
+  const value = override[key];
+  if (value !== undefined) {
+    policy[key] = value;
+  }
+}
+
+/**
+ * Merges retry policy overrides on top of the defaults and validates the result
+ * @param overrides - Partial policies, later entries take precedence
+ */
+export function resolveRetryPolicy(...overrides: (Partial<RetryPolicy> | undefined)[]): RetryPolicy {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const override of overrides) {
+    if (!override) {
+      continue;
+    }
+    for (const key of Object.keys(override) as (keyof RetryPolicy)[]) {
+      setIfDefined(policy, override, key);
+    }
+  }
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new InvalidParamError('retryPolicy.maxAttempts must be a positive integer');
+  }
+  if (!Number.isFinite(policy.initialDelayMs) || policy.initialDelayMs < 0) {
+    throw new InvalidParamError('retryPolicy.initialDelayMs must be a non-negative number');
+  }
+  if (!Number.isFinite(policy.maxDelayMs) || policy.maxDelayMs < 0) {
+    throw new InvalidParamError('retryPolicy.maxDelayMs must be a non-negative number');
+  }
+  if (!BACKOFF_STRATEGIES.includes(policy.backoff)) {
+    throw new InvalidParamError(`retryPolicy.backoff must be one of: ${BACKOFF_STRATEGIES.join(', ')}`);
+  }
+  if (!JITTER_STRATEGIES.includes(policy.jitter)) {
+    throw new InvalidParamError(`retryPolicy.jitter must be one of: ${JITTER_STRATEGIES.join(', ')}`);
+  }
+  if (typeof policy.shouldRetry !== 'function') {
+    throw new InvalidParamError('retryPolicy.shouldRetry must be a function');
+  }
+
+  return policy;
+}
+
+/**
+ * Maps the legacy `retries`/`retryInterval` arguments of zkFetch to a policy.
+ * An explicit interval keeps the old constant, jitter-free delay.
+ */
+export function legacyRetryPolicy(retries?: number, retryInterval?: number): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {};
+  if (retries !== undefined) {
+    policy.maxAttempts = retries;
+  }
+  if (retryInterval !== undefined) {
+    policy.initialDelayMs = retryInterval;
+    policy.backoff = 'constant';
+    policy.jitter = 'none';
+  }
+  return policy;
+}
+
+/**
+ * Computes the delay before the next attempt
+ * @param policy - Retry policy
+ * @param attempt - Number of attempts made so far (1-based)
+ * @param random - Random source in [0, 1), injectable for tests
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  let delay: number;
+  switch (policy.backoff) {
+    case 'constant':
+      delay = policy.initialDelayMs;
+      break;
+    case 'linear':
+      delay = policy.initialDelayMs * attempt;
+      break;
+    case 'exponential':
+      delay = policy.initialDelayMs * Math.pow(2, attempt - 1);
+      break;
+  }
+  delay = Math.min(delay, policy.maxDelayMs);
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.floor(random() * delay);
+    case 'equal':
+      return Math.floor(delay / 2 + random() * (delay / 2));
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Runs an operation until it succeeds or the policy stops retrying.
+ * Cancellation (AbortError/TimeoutError) is never retried.
+ * @returns The operation's result; rethrows the last error on failure
+ */
+export async function retryWithPolicy<T>(
+  run: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await run(attempt + 1);
+    } catch (error) {
+      attempt++;
+      if (error instanceof ZkFetchError) {
+        error.attempt = attempt;
+      }
+      const cancelled = error instanceof AbortError || error instanceof TimeoutError;
+      if (cancelled || attempt >= policy.maxAttempts || !policy.shouldRetry(error, attempt)) {
+        throw error;
+      }
+      await sleep(computeRetryDelay(policy, attempt), signal);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { ethers } from 'ethers';
+import { InvalidParamError, NetworkError, SignatureRevokedError } from './errors';
+import { CheckSessionSignatureOptions, RevocationListProvider, SignatureData, SignedRevocationList } from './interfaces';
+import { canonicalStringify, validateApplicationIdAndSecret } from './utils';
+import P from "pino";
+const logger = P();
+
+function hashRevocationList(list: Omit<SignedRevocationList, 'signature'>): Uint8Array {
+  const payload = canonicalStringify({
+    applicationId: list.applicationId.toLowerCase(),
+    issuedAt: list.issuedAt,
+    revokedTokenIds: list.revokedTokenIds,
+  });
+  return ethers.utils.arrayify(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payload)));
+}
+
+/**
+ * Creates a revocation list signed with the application secret. Publish the
+ * whole list every time, a newer list replaces the previous one.
+ *
+ * @param config - Application credentials and the token IDs to revoke
+ * @returns Signed revocation list, safe to serve publicly as JSON
+ */
+export async function createRevocationList(config: {
+  applicationId: string;
+  applicationSecret: string;
+  revokedTokenIds: string[];
+}): Promise<SignedRevocationList> {
+  const { applicationId, applicationSecret, revokedTokenIds } = config;
+  validateApplicationIdAndSecret(applicationId, applicationSecret);
+
+  if (!Array.isArray(revokedTokenIds) || revokedTokenIds.some(id => typeof id !== 'string' || id === '')) {
+    throw new InvalidParamError('revokedTokenIds must be an array of non-empty strings');
+  }
+
+  const list = {
+    applicationId,
+    revokedTokenIds: Array.from(new Set(revokedTokenIds)).sort(),
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+  const signature = await new ethers.Wallet(applicationSecret).signMessage(hashRevocationList(list));
+  return { ...list, signature };
+}
+
+/**
+ * Verifies that a revocation list was signed by its application
+ * @throws {InvalidParamError} If the list is malformed or the signature does not match
+ */
+export function verifyRevocationList(list: SignedRevocationList): void {
+  if (
+    !list ||
+    typeof list.applicationId !== 'string' ||
+    !Array.isArray(list.revokedTokenIds) ||
+    typeof list.issuedAt !== 'number' ||
+    typeof list.signature !== 'string'
+  ) {
+    throw new InvalidParamError('Invalid revocation list structure');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.utils.verifyMessage(hashRevocationList(list), list.signature);
+  } catch {
+    throw new InvalidParamError('Revocation list signature verification failed');
+  }
+  if (signer.toLowerCase() !== list.applicationId.toLowerCase()) {
+    throw new InvalidParamError('Revocation list signature verification failed');
+  }
+}
+
+/**
+ * Rejects a verified session signature whose tokenId is in the list
+ * @throws {SignatureRevokedError} If the token is revoked
+ */
+export function assertNotInRevocationList(signatureData: SignatureData, list?: SignedRevocationList): void {
+  if (!list) {
+    return;
+  }
+  verifyRevocationList(list);
+  if (list.applicationId.toLowerCase() !== signatureData.applicationId.toLowerCase()) {
+    throw new InvalidParamError('Revocation list belongs to a different application');
+  }
+  // tokens created before token IDs existed cannot be revoked individually
+  if (signatureData.tokenId && list.revokedTokenIds.includes(signatureData.tokenId)) {
+    throw new SignatureRevokedError(`Signature ${signatureData.tokenId} has been revoked`);
+  }
+}
+
+/**
+ * Rejects a verified session signature whose tokenId has been revoked,
+ * asking the provider for its current list
+ * @throws {SignatureRevokedError} If the token is revoked
+ */
+export async function assertNotRevoked(signatureData: SignatureData, options: CheckSessionSignatureOptions = {}): Promise<void> {
+  assertNotInRevocationList(signatureData, options.revocationList);
+  assertNotInRevocationList(signatureData, await options.revocationProvider?.getRevocationList(signatureData.applicationId));
+}
+
+export interface HttpRevocationListProviderOptions {
+  /** URL serving the JSON of a SignedRevocationList */
+  url: string;
+  /** A list fetched longer ago than this is fetched again when a token is checked, in ms (default: 0, every check) */
+  maxAgeMs?: number;
+  /** Refreshes the list in the background at this interval, in ms */
+  refreshIntervalMs?: number;
+}
+
+/**
+ * Serves the revocation list of a URL, fetching it when a token is checked
+ * and the last list is older than `maxAgeMs`. Set `refreshIntervalMs` to also
+ * refresh in the background.
+ */
+export class HttpRevocationListProvider implements RevocationListProvider {
+  private url: string;
+  private maxAgeMs: number;
+  private list?: SignedRevocationList;
+  private fetchedAt?: number;
+  private refreshing?: Promise<SignedRevocationList>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(options: HttpRevocationListProviderOptions) {
+    try {
+      new URL(options?.url);
+    } catch {
+      throw new InvalidParamError('url must be a valid URL');
+    }
+    this.url = options.url;
+
+    this.maxAgeMs = options.maxAgeMs ?? 0;
+    if (!Number.isFinite(this.maxAgeMs) || this.maxAgeMs < 0) {
+      throw new InvalidParamError('maxAgeMs must be a non-negative number');
+    }
+
+    if (options.refreshIntervalMs !== undefined) {
+      if (!Number.isFinite(options.refreshIntervalMs) || options.refreshIntervalMs <= 0) {
+        throw new InvalidParamError('refreshIntervalMs must be a positive number');
+      }
+      this.timer = setInterval(() => {
+        this.refresh().catch(err => logger.warn({ err }, 'Failed to refresh revocation list'));
+      }, options.refreshIntervalMs);
+      // background refreshes should not keep the process alive
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Returns the current list, fetching it first when it is older than `maxAgeMs`
+   * @throws {NetworkError} If no list could be fetched yet; later failures keep the last list
+   */
+  async getRevocationList(applicationId: string): Promise<SignedRevocationList | undefined> {
+    if (this.fetchedAt === undefined || Date.now() - this.fetchedAt >= this.maxAgeMs) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        if (!this.list) {
+          throw error;
+        }
+        logger.warn({ err: error }, 'Failed to refresh revocation list, using the last one');
+      }
+    }
+    if (this.list && this.list.applicationId.toLowerCase() === applicationId.toLowerCase()) {
+      return this.list;
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetches and verifies the list. A list older than the current one is ignored,
+   * and the current list is kept when the fetch fails. Concurrent calls share
+   * one fetch.
+   */
+  refresh(): Promise<SignedRevocationList> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchList().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchList(): Promise<SignedRevocationList> {
+    let list: SignedRevocationList;
+    try {
+      const response = await fetch(this.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      list = await response.json();
+    } catch (error) {
+      throw new NetworkError(`Failed to fetch revocation list: ${(error as Error).message}`);
+    }
+
+    verifyRevocationList(list);
+    if (!this.list || list.issuedAt >= this.list.issuedAt) {
+      this.list = list;
+    }
+    this.fetchedAt = Date.now();
+    return this.list;
+  }
+
+  /** Stops background refreshes */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
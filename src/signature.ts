@@ -1,13 +1,222 @@
 import { ethers } from 'ethers';
-import { InvalidParamError } from './errors';
-import { validateApplicationIdAndSecret, validateAppRegistration, isRegexPattern, sendLogs } from './utils';
-import { SignatureConfig, SignatureData } from './interfaces';
-import { DEFAULT_EXPIRY_HOURS, MAX_EXPIRY_HOURS } from './constants';
-import { LogType } from './types';
+import { InvalidParamError, SignatureExpiredError, SignatureReplayError } from './errors';
+import { validateApplicationIdAndSecret, validateAppRegistration } from './utils';
+import { HttpLogSink, emitLog, resolveTelemetryMode } from './telemetry';
+import {
+  CheckSessionSignatureOptions,
+  DelegatedSignatureScope,
+  RedeemedSessionSignature,
+  RedeemSessionSignatureOptions,
+  SignatureConfig,
+  SignatureData,
+  SessionSignatureDomain,
+  SessionSigner,
+  SignatureScope,
+  VerifySessionSignatureOptions,
+} from './interfaces';
+import { assertNotInRevocationList, assertNotRevoked } from './revocation';
+import { assertNarrowerScope, mergeDelegatedScope } from './delegation';
+import { lintAllowedUrls } from './url-pattern';
+import { DEFAULT_EXPIRY_HOURS, MAX_DELEGATION_DEPTH, MAX_EXPIRY_HOURS } from './constants';
+import { HttpMethod, LogType } from './types';
 import { v4 } from 'uuid';
+import P from "pino";
+const logger = P();
 
+function assertCorrectnessOfMethods(methods: unknown, name: string): void {
+  if (!Array.isArray(methods) || methods.length === 0) {
+    throw new InvalidParamError(`${name} must be a non-empty array`);
+  }
+  for (const method of methods) {
+    if (!Object.values(HttpMethod).includes(method)) {
+      throw new InvalidParamError(`Invalid method "${method}" in ${name}`);
+    }
+  }
+}
+
+/* validate URL patterns (empty array means allow all URLs - signature validation only) */
+function assertCorrectnessOfAllowedUrls(allowedUrls: unknown, strict = false): void {
+  if (!Array.isArray(allowedUrls)) {
+    throw new InvalidParamError('allowedUrls must be an array');
+  }
+
+  for (const url of allowedUrls) {
+    if (typeof url !== 'string' || url.trim() === '') {
+      throw new InvalidParamError('All URLs in allowedUrls must be non-empty strings');
+    }
+  }
 
+  // an empty allowlist is documented behavior, not a finding
+  const issues = allowedUrls.length ? lintAllowedUrls(allowedUrls) : [];
+  const rejected = issues.filter(issue => strict || issue.severity === 'error');
+  if (rejected.length) {
+    throw new InvalidParamError(`Invalid URL pattern "${rejected[0].pattern}": ${rejected[0].message}`);
+  }
+  for (const issue of issues) {
+    logger.warn({ pattern: issue.pattern, code: issue.code }, issue.message);
+  }
+}
 
+function assertCorrectnessOfId(value: unknown, name: string): void {
+  if (value !== undefined && (typeof value !== 'string' || value.length === 0 || value.length > 128)) {
+    throw new InvalidParamError(`${name} must be a string of 1 to 128 characters`);
+  }
+}
+
+/* validate the optional request restrictions of a session signature */
+function assertCorrectnessOfSignatureScope(scope: SignatureScope, allowedUrls: string[]): void {
+  if (scope.allowedMethods !== undefined) {
+    assertCorrectnessOfMethods(scope.allowedMethods, 'allowedMethods');
+  }
+
+  if (scope.methodsByPattern !== undefined) {
+    if (typeof scope.methodsByPattern !== 'object' || scope.methodsByPattern === null) {
+      throw new InvalidParamError('methodsByPattern must be an object');
+    }
+    for (const [pattern, methods] of Object.entries(scope.methodsByPattern)) {
+      if (!allowedUrls.includes(pattern)) {
+        throw new InvalidParamError(`methodsByPattern key "${pattern}" is not one of allowedUrls`);
+      }
+      assertCorrectnessOfMethods(methods, `methodsByPattern["${pattern}"]`);
+    }
+  }
+
+  if (
+    scope.maxBodyBytes !== undefined &&
+    (!Number.isInteger(scope.maxBodyBytes) || scope.maxBodyBytes < 0)
+  ) {
+    throw new InvalidParamError('maxBodyBytes must be a non-negative integer');
+  }
+
+  if (scope.contextAddress !== undefined && !ethers.utils.isAddress(scope.contextAddress)) {
+    throw new InvalidParamError('contextAddress must be a valid address');
+  }
+}
+
+/** EIP-712 domain of version 2 session signatures, without a chainId */
+export const SESSION_SIGNATURE_DOMAIN: SessionSignatureDomain = {
+  name: 'Reclaim zkFetch Session',
+  version: '2',
+};
+
+/**
+ * EIP-712 types of version 2 session signatures. Unset restrictions are
+ * encoded as empty arrays and strings, the zero address and, for
+ * maxBodyBytes, the maximum uint256.
+ */
+export const SESSION_SIGNATURE_TYPES = {
+  SessionSignature: [
+    { name: 'applicationId', type: 'address' },
+    { name: 'allowedUrls', type: 'string[]' },
+    { name: 'expiresAt', type: 'uint256' },
+    { name: 'tokenId', type: 'string' },
+    { name: 'allowedMethods', type: 'string[]' },
+    { name: 'methodsByPattern', type: 'MethodsForPattern[]' },
+    { name: 'maxBodyBytes', type: 'uint256' },
+    { name: 'contextAddress', type: 'address' },
+    { name: 'nonce', type: 'string' },
+    { name: 'maxUses', type: 'uint256' },
+    { name: 'delegateAddress', type: 'address' },
+  ],
+  MethodsForPattern: [
+    { name: 'pattern', type: 'string' },
+    { name: 'methods', type: 'string[]' },
+  ],
+};
+
+/**
+ * Builds the EIP-712 message a version 2 token signs, e.g. to check it in a contract.
+ * The domain includes the token's chainId when it has one.
+ */
+export function getSessionSignatureTypedData(data: SignatureData): {
+  domain: SessionSignatureDomain;
+  types: typeof SESSION_SIGNATURE_TYPES;
+  primaryType: 'SessionSignature';
+  message: { [key: string]: unknown };
+} {
+  return {
+    domain: data.chainId === undefined ? SESSION_SIGNATURE_DOMAIN : { ...SESSION_SIGNATURE_DOMAIN, chainId: data.chainId },
+    types: SESSION_SIGNATURE_TYPES,
+    primaryType: 'SessionSignature',
+    message: {
+      applicationId: data.applicationId,
+      allowedUrls: data.allowedUrls,
+      expiresAt: data.expiresAt,
+      tokenId: data.tokenId ?? '',
+      allowedMethods: data.allowedMethods ?? [],
+      methodsByPattern: Object.keys(data.methodsByPattern ?? {}).sort().map(pattern => ({
+        pattern,
+        methods: data.methodsByPattern![pattern],
+      })),
+      maxBodyBytes: data.maxBodyBytes ?? ethers.constants.MaxUint256,
+      contextAddress: data.contextAddress ?? ethers.constants.AddressZero,
+      nonce: data.nonce ?? '',
+      maxUses: data.maxUses ?? 0,
+      delegateAddress: data.delegateAddress ?? ethers.constants.AddressZero,
+    },
+  };
+}
+
+/* hash signed by version 1 and delegated tokens */
+function hashPayload(payload: SignatureData): Uint8Array {
+  const payloadString = JSON.stringify(payload);
+  return ethers.utils.arrayify(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payloadString)));
+}
+
+// fields covered by a version 2 signature: its message, version and domain chainId
+const SIGNED_FIELDS = [
+  'version',
+  'chainId',
+  'applicationId',
+  'allowedUrls',
+  'expiresAt',
+  'tokenId',
+  'allowedMethods',
+  'methodsByPattern',
+  'maxBodyBytes',
+  'contextAddress',
+  'nonce',
+  'maxUses',
+  'delegateAddress',
+] as const;
+
+type SignedFields = Pick<SignatureData, typeof SIGNED_FIELDS[number]>;
+
+function copySignedField<K extends keyof SignedFields>(from: SignedFields, to: SignedFields, key: K): void {
+  if (from[key] !== undefined) {
+    to[key] = from[key];
+  }
+}
+
+/* keep the fields covered by a version 2 signature */
+function pickSignedFields(payload: SignatureData): SignedFields {
+  const signed: SignedFields = {
+    applicationId: payload.applicationId,
+    allowedUrls: payload.allowedUrls,
+    expiresAt: payload.expiresAt,
+  };
+  for (const key of SIGNED_FIELDS) {
+    copySignedField(payload, signed, key);
+  }
+  return signed;
+}
+
+/* resolve the key a token is signed with and check it belongs to the application */
+async function resolveSessionSigner(config: SignatureConfig): Promise<SessionSigner> {
+  if (!config.signer) {
+    validateApplicationIdAndSecret(config.applicationId, config.applicationSecret as string);
+    return new ethers.Wallet(config.applicationSecret as string);
+  }
+
+  if (config.applicationSecret !== undefined) {
+    throw new InvalidParamError('Pass either applicationSecret or signer, not both');
+  }
+  const address = await config.signer.getAddress();
+  if (typeof config.applicationId !== 'string' || address.toLowerCase() !== config.applicationId.toLowerCase()) {
+    throw new InvalidParamError('signer address does not match applicationId');
+  }
+  return config.signer;
+}
 
 /**
  * Generates a signed token for frontend use
@@ -16,34 +225,20 @@ import { v4 } from 'uuid';
  * @returns Signed token string
  */
 export async function generateSessionSignature(config: SignatureConfig): Promise<string> {
-  const { applicationId, applicationSecret, allowedUrls, expiresAt } = config;
+  const { applicationId, allowedUrls, expiresAt, endpoints } = config;
+  const telemetry = resolveTelemetryMode(config.telemetry);
+  const version = config.version ?? 1;
+  if (version !== 1 && version !== 2) {
+    throw new InvalidParamError('version must be 1 or 2');
+  }
 
-  // Validate applicationId and applicationSecret
-  validateApplicationIdAndSecret(applicationId, applicationSecret);
+  // Validate applicationId against applicationSecret or signer
+  const signer = await resolveSessionSigner(config);
 
   // Validate that the application is registered
-  await validateAppRegistration(applicationId);
-
-  // Validate allowedUrls (empty array means allow all URLs - signature validation only)
-  if (!Array.isArray(allowedUrls)) {
-    throw new InvalidParamError('allowedUrls must be an array');
-  }
+  await validateAppRegistration(applicationId, endpoints);
 
-  // Validate all URL patterns
-  for (const url of allowedUrls) {
-    if (typeof url !== 'string' || url.trim() === '') {
-      throw new InvalidParamError('All URLs in allowedUrls must be non-empty strings');
-    }
-
-    // Check if it's a regex pattern and validate it
-    if (isRegexPattern(url)) {
-      try {
-        new RegExp(url);
-      } catch (error) {
-        throw new InvalidParamError(`Invalid regex pattern: ${url}`);
-      }
-    }
-  }
+  assertCorrectnessOfAllowedUrls(allowedUrls, config.strictUrlPatterns);
 
   // Set default expiration if not provided (1 hour from now)
   const nowInSeconds = Math.floor(Date.now() / 1000);
@@ -59,21 +254,69 @@ export async function generateSessionSignature(config: SignatureConfig): Promise
     throw new InvalidParamError(`expiresAt cannot exceed ${MAX_EXPIRY_HOURS} hours from now`);
   }
 
-  const wallet = new ethers.Wallet(applicationSecret);
+  if (config.maxUses !== undefined && (!Number.isInteger(config.maxUses) || config.maxUses < 1)) {
+    throw new InvalidParamError('maxUses must be a positive integer');
+  }
+  assertCorrectnessOfId(config.nonce, 'nonce');
+  assertCorrectnessOfId(config.tokenId, 'tokenId');
+  if (config.delegateAddress !== undefined && !ethers.utils.isAddress(config.delegateAddress)) {
+    throw new InvalidParamError('delegateAddress must be a valid address');
+  }
+  if (config.chainId !== undefined) {
+    if (version !== 2) {
+      throw new InvalidParamError('chainId is only signed by version 2 tokens');
+    }
+    if (!Number.isSafeInteger(config.chainId) || config.chainId < 1) {
+      throw new InvalidParamError('chainId must be a positive integer');
+    }
+  }
+
+  assertCorrectnessOfSignatureScope(config, allowedUrls);
 
   const payload: SignatureData = {
     applicationId,
     allowedUrls,
     expiresAt: finalExpiresAt,
+    tokenId: config.tokenId ?? v4().toString(),
   };
 
-  // Convert payload to string and sign it
+  // restrictions are only added when set, so unrestricted tokens keep their format
+  const { allowedMethods, methodsByPattern, maxBodyBytes, contextAddress } = config;
+  if (allowedMethods !== undefined) {
+    payload.allowedMethods = allowedMethods;
+  }
+  if (methodsByPattern !== undefined) {
+    payload.methodsByPattern = methodsByPattern;
+  }
+  if (maxBodyBytes !== undefined) {
+    payload.maxBodyBytes = maxBodyBytes;
+  }
+  if (contextAddress !== undefined) {
+    payload.contextAddress = contextAddress;
+  }
+  if (config.nonce !== undefined || config.maxUses !== undefined) {
+    payload.nonce = config.nonce ?? v4().toString();
+    payload.maxUses = config.maxUses ?? 1;
+  }
+  if (config.delegateAddress !== undefined) {
+    payload.delegateAddress = config.delegateAddress;
+  }
+
+  let sig: string;
+  if (version === 2) {
+    payload.version = 2;
+    if (config.chainId !== undefined) {
+      payload.chainId = config.chainId;
+    }
+    const { domain, types, message } = getSessionSignatureTypedData(payload);
+    sig = await signer._signTypedData(domain, types, message);
+  } else {
+    sig = await signer.signMessage(hashPayload(payload));
+  }
   const payloadString = JSON.stringify(payload);
-  const messageHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payloadString));
-  const sig = await wallet.signMessage(ethers.utils.arrayify(messageHash));
 
   // Log signature generation
-  await sendLogs({
+  await emitLog(config.logSink || new HttpLogSink(endpoints), telemetry, {
     sessionId: v4().toString(),
     logType: LogType.SESSION_TOKEN_GENERATED,
     applicationId,
@@ -89,10 +332,47 @@ export async function generateSessionSignature(config: SignatureConfig): Promise
  * Verifies and decodes a session signature token
  *
  * @param signature - The signature token to verify
+ * @param options - Revocation list to check the token against
+ * @returns Decoded signature data
+ * @throws {InvalidParamError} If signature is invalid
+ * @throws {SignatureExpiredError} If signature has expired
+ * @throws {SignatureRevokedError} If signature is in the revocation list
+ */
+export function verifySessionSignature(signature: string, options?: VerifySessionSignatureOptions): SignatureData {
+  return verifySessionSignatureChain(signature, options, MAX_DELEGATION_DEPTH, []);
+}
+
+/**
+ * Verifies and decodes a session signature token like verifySessionSignature,
+ * and checks every token of its delegation chain against the revocation
+ * provider, which may fetch its list on demand
+ *
+ * @param signature - The signature token to check
+ * @param options - Revocation list or provider to check the token against
  * @returns Decoded signature data
- * @throws {InvalidParamError} If signature is invalid or expired
+ * @throws {InvalidParamError} If signature is invalid
+ * @throws {SignatureExpiredError} If signature has expired
+ * @throws {SignatureRevokedError} If signature has been revoked
  */
-export function verifySessionSignature(signature: string): SignatureData {
+export async function checkSessionSignature(
+  signature: string,
+  options: CheckSessionSignatureOptions = {}
+): Promise<SignatureData> {
+  const chain: SignatureData[] = [];
+  const signatureData = verifySessionSignatureChain(signature, options, MAX_DELEGATION_DEPTH, chain);
+  for (const token of chain) {
+    await assertNotRevoked(token, { revocationProvider: options.revocationProvider });
+  }
+  return signatureData;
+}
+
+/* verifies a token and its parents, collecting every verified token in `chain` */
+function verifySessionSignatureChain(
+  signature: string,
+  options: VerifySessionSignatureOptions | undefined,
+  remainingDepth: number,
+  chain: SignatureData[]
+): SignatureData {
   if (!signature || typeof signature !== 'string') {
     throw new InvalidParamError('signature must be a non-empty string');
   }
@@ -122,17 +402,24 @@ export function verifySessionSignature(signature: string): SignatureData {
   // Check expiration
   const now = Math.floor(Date.now() / 1000);
   if (payload.expiresAt <= now) {
-    throw new InvalidParamError('Signature has expired');
+    throw new SignatureExpiredError('Signature has expired');
+  }
+
+  if (payload.parent !== undefined) {
+    return verifyDelegatedSignature(payload, sig, options, remainingDepth, chain);
   }
 
   // Verify signature
   try {
-    const payloadString = JSON.stringify(payload);
-    const messageHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payloadString));
-    const recoveredAddress = ethers.utils.verifyMessage(
-      ethers.utils.arrayify(messageHash),
-      sig
-    );
+    let recoveredAddress: string;
+    if (payload.version === 2) {
+      // only the typed fields are signed, drop anything else
+      payload = pickSignedFields(payload);
+      const { domain, types, message } = getSessionSignatureTypedData(payload);
+      recoveredAddress = ethers.utils.verifyTypedData(domain, types, message, sig);
+    } else {
+      recoveredAddress = ethers.utils.verifyMessage(hashPayload(payload), sig);
+    }
 
     if (recoveredAddress.toLowerCase() !== payload.applicationId.toLowerCase()) {
       throw new InvalidParamError('Signature verification failed');
@@ -141,5 +428,157 @@ export function verifySessionSignature(signature: string): SignatureData {
     throw new InvalidParamError('Signature verification failed');
   }
 
+  assertNotInRevocationList(payload, options?.revocationList);
+  chain.push(payload);
+
   return payload;
-}
\ No newline at end of file
+}
+
+/* verify a delegated token, its parents back to the application and that it only narrows them */
+function verifyDelegatedSignature(
+  payload: SignatureData,
+  sig: string,
+  options: VerifySessionSignatureOptions | undefined,
+  remainingDepth: number,
+  chain: SignatureData[]
+): SignatureData {
+  if (typeof payload.parent !== 'string') {
+    throw new InvalidParamError('Invalid signature payload structure');
+  }
+  if (remainingDepth === 0) {
+    throw new InvalidParamError(`Delegation chains are limited to ${MAX_DELEGATION_DEPTH} levels`);
+  }
+
+  const parent = verifySessionSignatureChain(payload.parent, options, remainingDepth - 1, chain);
+  if (!parent.delegateAddress) {
+    throw new InvalidParamError('Parent signature does not allow delegation');
+  }
+
+  let recoveredAddress: string;
+  try {
+    recoveredAddress = ethers.utils.verifyMessage(hashPayload(payload), sig);
+  } catch {
+    throw new InvalidParamError('Signature verification failed');
+  }
+  if (recoveredAddress.toLowerCase() !== parent.delegateAddress.toLowerCase()) {
+    throw new InvalidParamError('Signature verification failed');
+  }
+
+  assertNarrowerScope(parent, payload);
+  assertNotInRevocationList(payload, options?.revocationList);
+  chain.push(payload);
+
+  return mergeDelegatedScope(parent, payload);
+}
+
+/**
+ * Derives a narrower token from a parent token that names a delegateAddress,
+ * without the application secret
+ *
+ * @param parentToken - Token created with a delegateAddress, or derived with one
+ * @param delegateKey - Private key or signer of the parent's delegateAddress
+ * @param scope - Restrictions of the new token, each within the parent's
+ * @returns Signed token, usable wherever the parent is
+ * @throws {InvalidParamError} If the key is not the delegate or the scope is broader than the parent's
+ */
+export async function deriveSessionSignature(
+  parentToken: string,
+  delegateKey: string | SessionSigner,
+  scope: DelegatedSignatureScope
+): Promise<string> {
+  const parent = verifySessionSignature(parentToken);
+  if (!parent.delegateAddress) {
+    throw new InvalidParamError('Parent signature does not allow delegation');
+  }
+
+  let signer: SessionSigner;
+  try {
+    signer = typeof delegateKey === 'string' ? new ethers.Wallet(delegateKey) : delegateKey;
+  } catch {
+    throw new InvalidParamError('Invalid delegate key');
+  }
+  if ((await signer.getAddress()).toLowerCase() !== parent.delegateAddress.toLowerCase()) {
+    throw new InvalidParamError('delegateKey does not match the parent\'s delegateAddress');
+  }
+
+  if (!scope || typeof scope !== 'object') {
+    throw new InvalidParamError('scope must be an object');
+  }
+  assertCorrectnessOfAllowedUrls(scope.allowedUrls, scope.strictUrlPatterns);
+  assertCorrectnessOfId(scope.tokenId, 'tokenId');
+  assertCorrectnessOfSignatureScope(scope, scope.allowedUrls);
+  if (scope.delegateAddress !== undefined && !ethers.utils.isAddress(scope.delegateAddress)) {
+    throw new InvalidParamError('delegateAddress must be a valid address');
+  }
+
+  const expiresAt = scope.expiresAt ?? parent.expiresAt;
+  if (!Number.isInteger(expiresAt) || expiresAt <= Math.floor(Date.now() / 1000)) {
+    throw new InvalidParamError('expiresAt must be in the future');
+  }
+
+  const payload: SignatureData = {
+    applicationId: parent.applicationId,
+    allowedUrls: scope.allowedUrls,
+    expiresAt,
+    tokenId: scope.tokenId ?? v4().toString(),
+  };
+  const { allowedMethods, maxBodyBytes, contextAddress, delegateAddress } = scope;
+  if (allowedMethods !== undefined) {
+    payload.allowedMethods = allowedMethods;
+  }
+  if (maxBodyBytes !== undefined) {
+    payload.maxBodyBytes = maxBodyBytes;
+  }
+  if (contextAddress !== undefined) {
+    payload.contextAddress = contextAddress;
+  }
+  if (delegateAddress !== undefined) {
+    payload.delegateAddress = delegateAddress;
+  }
+  payload.parent = parentToken;
+
+  assertNarrowerScope(parent, payload);
+
+  const sig = await signer.signMessage(hashPayload(payload));
+  const token = `${Buffer.from(JSON.stringify(payload)).toString('base64')}.${sig}`;
+
+  // rejects chains longer than MAX_DELEGATION_DEPTH
+  verifySessionSignature(token);
+  return token;
+}
+
+/**
+ * Verifies a session signature and counts one use of it, rejecting replays
+ * of single-use and usage-capped tokens. Meant for your backend, e.g. before
+ * serving something to the frontend holding the token.
+ *
+ * @param signature - The signature token to redeem
+ * @param options - Store the uses are counted in, and optionally revocations
+ * @returns Decoded signature data and its use count
+ * @throws {InvalidParamError} If the signature is invalid or has no nonce
+ * @throws {SignatureExpiredError} If the signature has expired
+ * @throws {SignatureRevokedError} If the signature has been revoked
+ * @throws {SignatureReplayError} If the signature has been used maxUses times
+ */
+export async function redeemSessionSignature(
+  signature: string,
+  options: RedeemSessionSignatureOptions
+): Promise<RedeemedSessionSignature> {
+  if (!options?.store || typeof options.store.increment !== 'function') {
+    throw new InvalidParamError('store must be a NonceStore');
+  }
+
+  const signatureData = await checkSessionSignature(signature, options);
+  const { nonce, maxUses } = signatureData;
+  if (!nonce || !maxUses) {
+    throw new InvalidParamError('Signature has no nonce and cannot be redeemed');
+  }
+
+  const key = `${signatureData.applicationId.toLowerCase()}:${nonce}`;
+  const uses = await options.store.increment(key, signatureData.expiresAt);
+  if (uses > maxUses) {
+    throw new SignatureReplayError(`Signature has already been used ${maxUses} time(s)`);
+  }
+
+  return { signatureData, uses, remainingUses: maxUses - uses };
+}
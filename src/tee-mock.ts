@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+import { InvalidParamError } from './errors';
+import { ReclaimProtocolError } from './tee';
+import { getClaimIdentifier, createClaimSignData } from './verify';
+import { canonicalStringify, sleep } from './utils';
+import {
+  ReclaimError,
+  TeeBackend,
+  MockTeeBackendOptions,
+  TeeProtocolResult,
+  TeeProviderRequest,
+  TeeReclaimConfig,
+} from './interfaces';
+
+/** Well-known development key (Hardhat account #0); never use it outside tests */
+const MOCK_TEE_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const MOCK_TEE_TIMESTAMP_S = 1700000000;
+
+// libreclaim reports these through reclaim_get_error_message, which needs the native library
+const ERROR_MESSAGES: Record<ReclaimError, string> = {
+  [ReclaimError.SUCCESS]: 'Success',
+  [ReclaimError.INVALID_ARGS]: 'Invalid arguments',
+  [ReclaimError.CONNECTION_FAILED]: 'Connection failed',
+  [ReclaimError.PROTOCOL_FAILED]: 'Protocol failed',
+  [ReclaimError.TIMEOUT]: 'Timeout',
+  [ReclaimError.MEMORY]: 'Memory allocation failed',
+  [ReclaimError.SESSION_NOT_FOUND]: 'Session not found',
+  [ReclaimError.ALREADY_COMPLETED]: 'Session already completed',
+};
+
+/**
+ * TEE backend that runs in-process without libreclaim, for testing TEE flows
+ * offline. Claims are built from the request and signed by a local key, so
+ * the same request always yields the same proof and `verifyProof` accepts it
+ * with `trustedWitnesses: [mock.address]`.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockTeeBackend();
+ * const client = new ReclaimClient(appId, appSecret, { teeBackend: mock });
+ * mock.failNext(ReclaimError.TIMEOUT);
+ * ```
+ */
+export class MockTeeBackend implements TeeBackend {
+  /** Address of the signing key, reported as the TEE attestor */
+  readonly address: string;
+  /** Requests received so far, including failed ones */
+  readonly calls: { request: TeeProviderRequest; config?: TeeReclaimConfig }[] = [];
+  private wallet: ethers.Wallet;
+  private options: MockTeeBackendOptions;
+  private failures: ReclaimError[] = [];
+
+  constructor(options: MockTeeBackendOptions = {}) {
+    const { error, latencyMs } = options;
+    if (error !== undefined && !(error in ERROR_MESSAGES)) {
+      throw new InvalidParamError(`Unknown ReclaimError code: ${error}`);
+    }
+    if (latencyMs !== undefined && (!Number.isFinite(latencyMs) || latencyMs < 0)) {
+      throw new InvalidParamError('latencyMs must be a non-negative number');
+    }
+    this.wallet = new ethers.Wallet(options.privateKey || MOCK_TEE_PRIVATE_KEY);
+    this.address = this.wallet.address.toLowerCase();
+    this.options = options;
+  }
+
+  /**
+   * Fails the next executions with the given libreclaim error code, before
+   * the `error` option applies
+   * @param times - Number of executions to fail (default: 1)
+   */
+  failNext(code: ReclaimError, times = 1): void {
+    if (!(code in ERROR_MESSAGES)) {
+      throw new InvalidParamError(`Unknown ReclaimError code: ${code}`);
+    }
+    for (let i = 0; i < times; i++) {
+      this.failures.push(code);
+    }
+  }
+
+  /**
+   * Builds and signs a claim for the request
+   * @throws ReclaimProtocolError with the simulated code; TIMEOUT when
+   *         `latencyMs` exceeds `config.timeout_ms`
+   * @throws AbortError/TimeoutError once the signal aborts
+   */
+  async executeProtocol(
+    request: TeeProviderRequest,
+    config?: TeeReclaimConfig,
+    signal?: AbortSignal
+  ): Promise<TeeProtocolResult> {
+    this.calls.push({ request, config });
+    const code = this.failures.length > 0 ? this.failures.shift()! : this.options.error;
+
+    const latencyMs = this.options.latencyMs || 0;
+    const timeoutMs = config?.timeout_ms;
+    if (timeoutMs !== undefined && latencyMs > timeoutMs) {
+      await sleep(timeoutMs, signal);
+      throw new ReclaimProtocolError(ReclaimError.TIMEOUT, ERROR_MESSAGES[ReclaimError.TIMEOUT]);
+    }
+    await sleep(latencyMs, signal);
+
+    if (code !== undefined && code !== ReclaimError.SUCCESS) {
+      throw new ReclaimProtocolError(code, ERROR_MESSAGES[code]);
+    }
+    return this.createResult(request);
+  }
+
+  private async createResult(request: TeeProviderRequest): Promise<TeeProtocolResult> {
+    let context: Record<string, unknown> = {};
+    if (request.context) {
+      try {
+        context = JSON.parse(request.context);
+      } catch {
+        throw new ReclaimProtocolError(ReclaimError.INVALID_ARGS, 'Request context must be JSON');
+      }
+    }
+
+    const claim = {
+      provider: request.name,
+      // public parameters only, secretParams never leave the TEE
+      parameters: canonicalStringify(request.params ?? {}),
+      context: canonicalStringify({ ...context, extractedParameters: this.options.extractedParameters ?? {} }),
+      owner: (this.options.owner || this.address).toLowerCase(),
+      timestampS: this.options.timestampS ?? MOCK_TEE_TIMESTAMP_S,
+      epoch: this.options.epoch ?? 1,
+    };
+    const identifier = getClaimIdentifier(claim);
+    const signature = await this.wallet.signMessage(createClaimSignData(claim, identifier));
+
+    return {
+      claim: {
+        identifier,
+        owner: claim.owner,
+        provider: claim.provider,
+        parameters: claim.parameters,
+        context: claim.context,
+        timestamp_s: claim.timestampS,
+        epoch: claim.epoch,
+      },
+      signatures: [{ attestor_address: this.address, claim_signature: signature }],
+    };
+  }
+}
@@ -0,0 +1,283 @@
+import { Worker } from 'worker_threads';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvalidParamError, AbortError, TeeWorkerCrashError } from './errors';
+import { AlgorithmID, TeeBackend, TeePoolOptions, TeeProtocolResult, TeeProviderRequest, TeeReclaimConfig } from './interfaces';
+import { throwIfAborted } from './utils';
+import { DEFAULT_TEE_POOL_SIZE } from './constants';
+
+/** Verified circuit files a worker passes to its libreclaim before executing */
+export interface TeeWorkerCircuit {
+  algorithmId: AlgorithmID;
+  pkPath: string;
+  r1csPath: string;
+}
+
+/** Message sent to a TEE worker */
+export interface TeeWorkerRequest {
+  id: number;
+  request: TeeProviderRequest;
+  config?: TeeReclaimConfig;
+  /** Circuits to initialize first, unless the worker already has */
+  circuits?: TeeWorkerCircuit[];
+}
+
+/** Reply of a TEE worker; errors are sent as plain objects */
+export interface TeeWorkerResponse {
+  id: number;
+  result?: TeeProtocolResult;
+  error?: { name: string; message: string; code?: number };
+}
+
+interface TeeTask {
+  message: TeeWorkerRequest;
+  resolve: (result: TeeProtocolResult) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  slot?: PoolWorker;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: TeeTask;
+  // terminated after an abort, still running its native call until it exits
+  terminating?: boolean;
+}
+
+// Runs the TypeScript worker entry when the SDK runs from source (vitest,
+// ts-node): compiles .ts files with esbuild unless a loader is registered
+const SOURCE_WORKER_BOOTSTRAP = `
+const fs = require('fs');
+const { workerData } = require('worker_threads');
+if (!require.extensions['.ts']) {
+  const { transformSync } = require(workerData.esbuildPath);
+  require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { code } = transformSync(source, { loader: 'ts', format: 'cjs', sourcefile: filename });
+    module._compile(code, filename);
+  };
+}
+require(workerData.workerPath);
+`;
+
+/* tee-worker.js is a separate bundle entry next to the build; from source it is tee-worker.ts */
+function resolveWorkerPath(): string {
+  const built = path.resolve(__dirname, 'tee-worker.js');
+  const source = path.resolve(__dirname, 'tee-worker.ts');
+  return !fs.existsSync(built) && fs.existsSync(source) ? source : built;
+}
+
+function toError({ name, message, code }: NonNullable<TeeWorkerResponse['error']>): Error {
+  const error = new Error(message) as Error & { code?: number };
+  error.name = name;
+  if (code !== undefined) {
+    error.code = code;
+  }
+  return error;
+}
+
+/**
+ * Runs TEE protocol executions on worker threads, so a long native call does
+ * not block the event loop and parallel requests run concurrently. Workers
+ * are started on demand and do not keep the process alive while idle.
+ *
+ * A worker that throws or exits fails only the execution it was running and
+ * is replaced. This is not crash isolation: workers share the process, so a
+ * native fault in libreclaim (e.g. SIGSEGV) still ends it.
+ */
+export class TeeWorkerPool implements TeeBackend {
+  readonly size: number;
+  private workerPath: string;
+  private libraryPath?: string;
+  private workers: PoolWorker[] = [];
+  private queue: TeeTask[] = [];
+  private nextId = 1;
+  private closed = false;
+  private circuits: TeeWorkerCircuit[] = [];
+
+  /**
+   * @param options - Pool size and worker script
+   * @param libraryPath - Path to libreclaim, loaded by every worker
+   */
+  constructor(options: TeePoolOptions = {}, libraryPath?: string) {
+    const size = options.size ?? DEFAULT_TEE_POOL_SIZE;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new InvalidParamError('TEE pool size must be a positive integer');
+    }
+    this.size = size;
+    this.workerPath = options.workerPath || resolveWorkerPath();
+    if (!fs.existsSync(this.workerPath)) {
+      throw new InvalidParamError(`TEE worker script not found at ${this.workerPath}, set teePool.workerPath`);
+    }
+    this.libraryPath = libraryPath;
+  }
+
+  /**
+   * Executes the protocol on the next free worker
+   * @param signal - Rejects with AbortError/TimeoutError once aborted; the worker
+   *                 of a running execution is terminated and replaced once it exits
+   */
+  run(request: TeeProviderRequest, config?: TeeReclaimConfig, signal?: AbortSignal): Promise<TeeProtocolResult> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) {
+        reject(new AbortError('TEE worker pool is closed'));
+        return;
+      }
+      try {
+        throwIfAborted(signal);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const task: TeeTask = { message: { id: this.nextId++, request, config }, resolve, reject, signal };
+      if (signal) {
+        task.onAbort = () => this.abort(task);
+        signal.addEventListener('abort', task.onAbort, { once: true });
+      }
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * TeeBackend entry point, same as run
+   */
+  executeProtocol(request: TeeProviderRequest, config?: TeeReclaimConfig, signal?: AbortSignal): Promise<TeeProtocolResult> {
+    return this.run(request, config, signal);
+  }
+
+  /**
+   * Circuits every worker initializes before its next execution
+   */
+  addCircuits(circuits: TeeWorkerCircuit[]): void {
+    this.circuits.push(...circuits);
+  }
+
+  /**
+   * Terminates all workers and rejects executions that have not finished
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new AbortError('TEE worker pool is closed');
+    const workers = this.workers.splice(0);
+    for (const task of this.queue.splice(0)) {
+      this.settle(task, error);
+    }
+    await Promise.all(workers.map(slot => {
+      if (slot.task) {
+        this.settle(slot.task, error);
+      }
+      return slot.worker.terminate();
+    }));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find(worker => !worker.task && !worker.terminating);
+      if (!slot) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        slot = this.spawn();
+      }
+      const task = this.queue.shift()!;
+      slot.task = task;
+      task.slot = slot;
+      // busy workers keep the process alive until their execution finishes
+      slot.worker.ref();
+      slot.worker.postMessage({ ...task.message, circuits: this.circuits });
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const workerData = { libraryPath: this.libraryPath };
+    const worker = this.workerPath.endsWith('.ts')
+      ? new Worker(SOURCE_WORKER_BOOTSTRAP, {
+        eval: true,
+        workerData: { ...workerData, workerPath: this.workerPath, esbuildPath: require.resolve('esbuild') },
+      })
+      : new Worker(this.workerPath, { workerData });
+    const slot: PoolWorker = { worker };
+    worker.unref();
+
+    worker.on('message', (response: TeeWorkerResponse) => {
+      const task = slot.task;
+      if (!task || task.message.id !== response.id) {
+        return;
+      }
+      slot.task = undefined;
+      worker.unref();
+      if (response.error) {
+        this.settle(task, toError(response.error));
+      } else {
+        this.settle(task, undefined, response.result);
+      }
+      this.dispatch();
+    });
+    worker.on('error', error => {
+      this.discard(slot, new TeeWorkerCrashError(`TEE worker failed: ${error.message}`, { cause: error }));
+    });
+    worker.on('exit', code => {
+      this.discard(slot, new TeeWorkerCrashError(`TEE worker exited with code ${code}`), true);
+    });
+
+    this.workers.push(slot);
+    return slot;
+  }
+
+  /*
+   * fails the execution of a dead worker; the worker counts toward the pool
+   * size until it has exited
+   */
+  private discard(slot: PoolWorker, error: Error, exited = false): void {
+    const index = this.workers.indexOf(slot);
+    if (index === -1) {
+      return;
+    }
+    slot.terminating = true;
+    if (slot.task) {
+      this.settle(slot.task, error);
+      slot.task = undefined;
+    }
+    if (exited) {
+      this.workers.splice(index, 1);
+      this.dispatch();
+    }
+  }
+
+  private abort(task: TeeTask): void {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else if (task.slot && task.slot.task === task) {
+      // terminating the worker cannot interrupt a native call, so the worker
+      // keeps its place in the pool until the call returns and it exits
+      const slot = task.slot;
+      slot.task = undefined;
+      slot.terminating = true;
+      slot.worker.unref();
+      slot.worker.terminate().catch(() => undefined);
+    } else {
+      return;
+    }
+
+    try {
+      throwIfAborted(task.signal);
+    } catch (error) {
+      this.settle(task, error);
+    }
+  }
+
+  private settle(task: TeeTask, error: unknown, result?: TeeProtocolResult): void {
+    if (task.onAbort) {
+      task.signal?.removeEventListener('abort', task.onAbort);
+    }
+    if (error) {
+      task.reject(error);
+    } else {
+      task.resolve(result!);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as fs from 'fs';
+import { ReclaimSDK } from './tee';
+import type { AlgorithmID } from './interfaces';
+import type { TeeWorkerRequest, TeeWorkerResponse } from './tee-pool';
+
+// Worker thread entry of TeeWorkerPool: loads libreclaim and the circuits
+// the pool passes, and runs one protocol execution at a time
+const sdk = new ReclaimSDK(workerData?.libraryPath);
+const loadedCircuits = new Set<AlgorithmID>();
+
+parentPort?.on('message', ({ id, request, config, circuits }: TeeWorkerRequest) => {
+  let response: TeeWorkerResponse;
+  try {
+    sdk.init();
+    for (const { algorithmId, pkPath, r1csPath } of circuits ?? []) {
+      if (loadedCircuits.has(algorithmId)) {
+        continue;
+      }
+      if (!sdk.initAlgorithm(algorithmId, fs.readFileSync(pkPath), fs.readFileSync(r1csPath))) {
+        throw new Error(`InitAlgorithm failed for algorithm ${algorithmId}`);
+      }
+      loadedCircuits.add(algorithmId);
+    }
+    response = { id, result: sdk.executeProtocol(request, config) };
+  } catch (error) {
+    const err = error as { name?: unknown; message?: unknown; code?: unknown } | undefined;
+    response = {
+      id,
+      error: {
+        name: typeof err?.name === 'string' ? err.name : 'Error',
+        message: typeof err?.message === 'string' ? err.message : String(error),
+        code: typeof err?.code === 'number' ? err.code : undefined,
+      },
+    };
+  }
+  parentPort!.postMessage(response);
+});
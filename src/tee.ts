@@ -1,9 +1,18 @@
 import * as bindings from './bindings';
+import { TeeWorkerPool, TeeWorkerCircuit } from './tee-pool';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { InvalidParamError, NativeLibraryError } from './errors';
+import { MIN_LIBRECLAIM_VERSION } from './constants';
 import {
   ReclaimError,
   AlgorithmID,
+  CircuitLoadStatus,
+  LoadCircuitsOptions,
+  TeeBackend,
+  TeeHealthReport,
+  TeePoolOptions,
   TeeProtocolResult,
   TeeProviderRequest,
   TeeReclaimConfig,
@@ -18,6 +27,85 @@ export interface CircuitConfig {
   name: string;
 }
 
+// circuit files fetched by `npm run download:circuits`, relative to the resources directory
+export const DEFAULT_CIRCUITS: CircuitConfig[] = [
+  {
+    algorithmId: AlgorithmID.CHACHA20_OPRF,
+    pkFile: 'snarkjs/chacha20/circuit_final.zkey',
+    r1csFile: 'snarkjs/chacha20/circuit.r1cs',
+    name: 'chacha20',
+  },
+  {
+    algorithmId: AlgorithmID.AES_128_OPRF,
+    pkFile: 'snarkjs/aes-128-ctr/circuit_final.zkey',
+    r1csFile: 'snarkjs/aes-128-ctr/circuit.r1cs',
+    name: 'aes-128-ctr',
+  },
+  {
+    algorithmId: AlgorithmID.AES_256_OPRF,
+    pkFile: 'snarkjs/aes-256-ctr/circuit_final.zkey',
+    r1csFile: 'snarkjs/aes-256-ctr/circuit.r1cs',
+    name: 'aes-256-ctr',
+  },
+];
+
+// digests scripts/download-files.js records for the files it fetched
+export const DEFAULT_CIRCUIT_CHECKSUM_FILE = 'SHA256SUMS';
+
+/**
+ * Get the directory of an installed package, undefined if it cannot be resolved
+ */
+function resolvePackageDir(name: string, paths?: string[]): string | undefined {
+  try {
+    return path.dirname(require.resolve(`${name}/package.json`, paths ? { paths } : undefined));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the resources directory scripts/download-files.js writes to, wherever
+ * the package manager installed zk-symmetric-crypto
+ */
+function getDefaultResourcesDir(): string | undefined {
+  const attestorCore = resolvePackageDir('@reclaimprotocol/attestor-core');
+  const candidates = [
+    // the copy attestor-core uses comes first, as in download:circuits
+    attestorCore && resolvePackageDir('@reclaimprotocol/zk-symmetric-crypto', [attestorCore]),
+    resolvePackageDir('@reclaimprotocol/zk-symmetric-crypto'),
+  ];
+  return candidates
+    .map(dir => dir && path.join(dir, 'resources'))
+    .find((dir): dir is string => !!dir && fs.existsSync(dir));
+}
+
+/**
+ * Parse `sha256sum` output into digests by relative file path
+ */
+function parseChecksumFile(contents: string): { [file: string]: string } {
+  const hashes: { [file: string]: string } = {};
+  for (const line of contents.split(/\r?\n/)) {
+    const match = /^([0-9a-f]{64})\s+\*?(.+)$/i.exec(line.trim());
+    if (match) {
+      hashes[match[2].replace(/\\/g, '/').replace(/^\.\//, '')] = match[1].toLowerCase();
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Compare the first x.y.z in two version strings
+ * @returns Negative, zero or positive like a sort comparator, undefined if either has no x.y.z
+ */
+function compareVersions(version: string, other: string): number | undefined {
+  const parse = (value: string) => /(\d+)\.(\d+)\.(\d+)/.exec(value)?.slice(1).map(Number);
+  const [a, b] = [parse(version), parse(other)];
+  if (!a || !b) {
+    return undefined;
+  }
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
 export class ReclaimProtocolError extends Error {
   public readonly code: ReclaimError;
 
@@ -34,26 +122,95 @@ export class ReclaimProtocolError extends Error {
 export class ReclaimSDK {
   private initialized = false;
   private libraryPath?: string;
+  private poolOptions?: TeePoolOptions;
+  private pool?: TeeWorkerPool;
+  private backend?: TeeBackend;
+  private circuitStatus = new Map<AlgorithmID, CircuitLoadStatus>();
+  // verified files of the loaded circuits, passed to every worker
+  private circuitFiles: TeeWorkerCircuit[] = [];
 
   /**
    * Create a new ReclaimSDK instance
    * @param libraryPath - Optional path to libreclaim.so
+   * @param poolOptions - Worker threads used by executeProtocolAsync
+   * @param backend - Runs executeProtocolAsync instead of libreclaim; the native
+   *                  library is then never loaded
    */
-  constructor(libraryPath?: string) {
+  constructor(libraryPath?: string, poolOptions?: TeePoolOptions, backend?: TeeBackend) {
     this.libraryPath = libraryPath;
+    this.poolOptions = poolOptions;
+    this.backend = backend;
   }
 
   /**
    * Initialize the SDK by loading the native library
+   * @throws NativeLibraryError if libreclaim is unavailable for this platform or incompatible
    */
   public init(): void {
-    if (this.initialized) {
+    if (this.initialized || this.backend) {
       return;
     }
     bindings.loadLibrary(this.libraryPath);
     this.initialized = true;
   }
 
+  /**
+   * Check that libreclaim can be used: where it was loaded from, its version
+   * against the minimum supported one, the symbols it exports and which
+   * circuits are initialized. Never throws, so it can gate startup.
+   * @param minVersion - Minimum supported version (default: MIN_LIBRECLAIM_VERSION)
+   */
+  public healthCheck(minVersion: string = MIN_LIBRECLAIM_VERSION): TeeHealthReport {
+    const circuits = DEFAULT_CIRCUITS.map(circuit => this.circuitStatus.get(circuit.algorithmId) ?? {
+      algorithmId: circuit.algorithmId,
+      name: circuit.name,
+      loaded: false,
+      verified: false,
+    });
+    const report: TeeHealthReport = {
+      healthy: false,
+      minVersion,
+      versionSupported: false,
+      symbols: Object.fromEntries(bindings.LIBRECLAIM_SYMBOLS.map(symbol => [symbol, false])),
+      circuits,
+    };
+
+    try {
+      this.init();
+    } catch (error) {
+      const missingSymbols = error instanceof NativeLibraryError ? error.missingSymbols : undefined;
+      if (missingSymbols) {
+        report.symbols = Object.fromEntries(
+          bindings.LIBRECLAIM_SYMBOLS.map(symbol => [symbol, !missingSymbols.includes(symbol)])
+        );
+      }
+      report.libraryPath = error instanceof NativeLibraryError ? error.libraryPath : this.libraryPath;
+      report.error = (error as Error).message;
+      return report;
+    }
+
+    report.libraryPath = bindings.getLoadedLibraryPath() ?? undefined;
+    report.symbols = Object.fromEntries(bindings.LIBRECLAIM_SYMBOLS.map(symbol => [symbol, true]));
+    try {
+      report.version = bindings.getVersion();
+    } catch (error) {
+      report.error = `reclaim_get_version() failed: ${(error as Error).message}`;
+      return report;
+    }
+
+    const comparison = compareVersions(report.version, minVersion);
+    report.versionSupported = comparison !== undefined && comparison >= 0;
+    if (!report.versionSupported) {
+      report.error = comparison === undefined
+        ? `Cannot compare libreclaim version "${report.version}" with ${minVersion}`
+        : `libreclaim ${report.version} is older than the minimum supported ${minVersion}`;
+      return report;
+    }
+
+    report.healthy = true;
+    return report;
+  }
+
   /**
    * Get the library version
    */
@@ -78,6 +235,136 @@ export class ReclaimSDK {
     return bindings.initAlgorithm(algorithmId, provingKey, r1cs);
   }
 
+  /**
+   * Load the ZK circuits of the given algorithms from disk, verify them
+   * against the expected SHA-256 digests and pass them to libreclaim. Files
+   * without a digest are refused unless `verify` is false.
+   * Algorithms loaded by an earlier call are skipped. Each worker of
+   * executeProtocolAsync passes the verified files to libreclaim itself
+   * before its next execution.
+   * @returns Status of every requested algorithm; failures, including missing
+   *          resources, do not throw
+   * @throws InvalidParamError if an algorithm is unknown or the SDK runs on a custom backend
+   */
+  public async loadCircuits(options: LoadCircuitsOptions = {}): Promise<CircuitLoadStatus[]> {
+    if (this.backend) {
+      throw new InvalidParamError('Circuits can only be loaded into libreclaim, not a custom TEE backend');
+    }
+    this.ensureInitialized();
+
+    const algorithms = options.algorithms ?? DEFAULT_CIRCUITS.map(circuit => circuit.algorithmId);
+    const circuits = algorithms.map(algorithmId => {
+      const circuit = DEFAULT_CIRCUITS.find(candidate => candidate.algorithmId === algorithmId);
+      if (!circuit) {
+        throw new InvalidParamError(`Unknown circuit algorithm: ${algorithmId}`);
+      }
+      return circuit;
+    });
+
+    const resourcesDir = options.resourcesDir ?? getDefaultResourcesDir();
+    if (!resourcesDir || !fs.existsSync(resourcesDir)) {
+      const error = `Circuit resources not found${resourcesDir ? ` at ${resourcesDir}` : ''}, ` +
+        'run `npm run download:circuits` or set resourcesDir';
+      return circuits.map(circuit => {
+        const status = this.circuitStatus.get(circuit.algorithmId);
+        if (status?.loaded) {
+          return status;
+        }
+        const missing: CircuitLoadStatus = {
+          algorithmId: circuit.algorithmId,
+          name: circuit.name,
+          loaded: false,
+          verified: false,
+          error,
+        };
+        this.circuitStatus.set(circuit.algorithmId, missing);
+        return missing;
+      });
+    }
+
+    const hashes: { [file: string]: string } = {};
+    const checksumPath = path.resolve(resourcesDir, options.checksumFile ?? DEFAULT_CIRCUIT_CHECKSUM_FILE);
+    // an explicit checksum file must exist, the default one only when no digests are passed
+    if (options.checksumFile || (!options.hashes && fs.existsSync(checksumPath))) {
+      Object.assign(hashes, parseChecksumFile(await fs.promises.readFile(checksumPath, 'utf8')));
+    }
+    for (const [file, hash] of Object.entries(options.hashes ?? {})) {
+      hashes[file] = hash.toLowerCase();
+    }
+
+    // one at a time, proving keys are large
+    const statuses: CircuitLoadStatus[] = [];
+    for (const circuit of circuits) {
+      let status = this.circuitStatus.get(circuit.algorithmId);
+      if (!status?.loaded) {
+        status = await this.loadCircuit(circuit, resourcesDir, hashes, options.verify ?? true);
+        this.circuitStatus.set(circuit.algorithmId, status);
+      }
+      statuses.push(status);
+    }
+    return statuses;
+  }
+
+  /**
+   * Status of every algorithm loadCircuits has attempted
+   */
+  public getCircuitStatus(): CircuitLoadStatus[] {
+    return Array.from(this.circuitStatus.values());
+  }
+
+  private async loadCircuit(
+    circuit: CircuitConfig,
+    resourcesDir: string,
+    hashes: { [file: string]: string },
+    verify: boolean
+  ): Promise<CircuitLoadStatus> {
+    const status: CircuitLoadStatus = {
+      algorithmId: circuit.algorithmId,
+      name: circuit.name,
+      loaded: false,
+      verified: false,
+    };
+
+    try {
+      const files = [circuit.pkFile, circuit.r1csFile];
+      const [provingKey, r1cs] = await Promise.all(
+        files.map(file => fs.promises.readFile(path.join(resourcesDir, file)))
+      );
+
+      // files without an expected digest are only loaded when verification is off
+      let verified = true;
+      for (const [file, data] of [[circuit.pkFile, provingKey], [circuit.r1csFile, r1cs]] as const) {
+        if (!hashes[file]) {
+          verified = false;
+          continue;
+        }
+        if (createHash('sha256').update(data).digest('hex') !== hashes[file]) {
+          return { ...status, error: `${file} does not match its expected SHA-256 digest` };
+        }
+      }
+      if (!verified && verify) {
+        return {
+          ...status,
+          error: `No expected SHA-256 digest for the circuit files, run \`npm run download:circuits\` or pass hashes`,
+        };
+      }
+
+      if (!this.initAlgorithm(circuit.algorithmId, provingKey, r1cs)) {
+        return { ...status, verified, error: 'InitAlgorithm failed' };
+      }
+      const circuitFiles: TeeWorkerCircuit = {
+        algorithmId: circuit.algorithmId,
+        pkPath: path.join(resourcesDir, circuit.pkFile),
+        r1csPath: path.join(resourcesDir, circuit.r1csFile),
+      };
+      this.circuitFiles.push(circuitFiles);
+      this.pool?.addCircuits([circuitFiles]);
+      return { ...status, loaded: true, verified };
+    } catch (error) {
+      return { ...status, error: (error as Error).message };
+    }
+  }
+
   /**
    * Execute the Reclaim protocol
    * @param request - Provider request data
@@ -128,22 +415,42 @@ export class ReclaimSDK {
   }
 
   /**
-   * Execute the protocol asynchronously (wraps sync call in a Promise)
+   * Execute the protocol on a worker thread, keeping the event loop free
+   * @param signal - Optional signal; rejects with AbortError/TimeoutError once aborted.
+   *                 A native call already in progress is stopped by terminating its worker.
    */
   public async executeProtocolAsync(
     request: TeeProviderRequest,
-    config?: TeeReclaimConfig
+    config?: TeeReclaimConfig,
+    signal?: AbortSignal
   ): Promise<TeeProtocolResult> {
-    return new Promise((resolve, reject) => {
-      setImmediate(() => {
-        try {
-          const result = this.executeProtocol(request, config);
-          resolve(result);
-        } catch (err) {
-          reject(err);
-        }
-      });
-    });
+    if (this.backend) {
+      return this.backend.executeProtocol(request, config, signal);
+    }
+    if (!this.pool) {
+      this.pool = new TeeWorkerPool(this.poolOptions, this.libraryPath);
+      this.pool.addCircuits(this.circuitFiles);
+    }
+    try {
+      return await this.pool.run(request, config, signal);
+    } catch (error) {
+      // libreclaim errors lose their class when sent from the worker
+      const code = (error as { code?: unknown }).code;
+      if (typeof code === 'number') {
+        throw new ReclaimProtocolError(code, (error as Error).message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Terminate the worker threads and close the backend; executions that have
+   * not finished are rejected
+   */
+  public async close(): Promise<void> {
+    const pool = this.pool;
+    this.pool = undefined;
+    await Promise.all([pool?.close(), this.backend?.close?.()]);
   }
 
   private ensureInitialized(): void {
@@ -0,0 +1,69 @@
+import P from "pino";
+import { LogSink, ReclaimEndpoints, SendLogsParams } from "./interfaces";
+import { TelemetryMode } from "./types";
+import { InvalidParamError } from "./errors";
+import { sendLogs } from "./utils";
+const logger = P();
+
+const TELEMETRY_MODES: TelemetryMode[] = ['off', 'fire-and-forget', 'blocking'];
+
+/**
+ * Log sink that posts business logs to the Reclaim logs backend
+ */
+export class HttpLogSink implements LogSink {
+  private endpoints?: ReclaimEndpoints;
+
+  /**
+   * @param endpoints - Optional endpoint overrides for the logs and backend URLs
+   */
+  constructor(endpoints?: ReclaimEndpoints) {
+    this.endpoints = endpoints;
+  }
+
+  async send(params: SendLogsParams): Promise<void> {
+    await sendLogs(params, this.endpoints);
+  }
+}
+
+/**
+ * Validates a telemetry mode, defaulting to 'fire-and-forget'
+ */
+export function resolveTelemetryMode(mode?: TelemetryMode): TelemetryMode {
+  if (mode === undefined) {
+    return 'fire-and-forget';
+  }
+  if (!TELEMETRY_MODES.includes(mode)) {
+    throw new InvalidParamError(`telemetry must be one of: ${TELEMETRY_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+/**
+ * Delivers a business log according to the telemetry mode
+ *
+ * Only 'blocking' waits for the sink and surfaces its errors; in
+ * 'fire-and-forget' mode delivery failures are logged and swallowed.
+ */
+export async function emitLog(
+  sink: LogSink,
+  mode: TelemetryMode,
+  params: SendLogsParams
+): Promise<void> {
+  if (mode === 'off') {
+    return;
+  }
+
+  if (mode === 'blocking') {
+    await sink.send(params);
+    return;
+  }
+
+  try {
+    sink.send(params).catch((error) => {
+      logger.warn({ err: error, logType: params.logType }, 'Failed to deliver business log');
+    });
+  } catch (error) {
+    // A synchronously throwing sink must not break proving either
+    logger.warn({ err: error, logType: params.logType }, 'Failed to deliver business log');
+  }
+}
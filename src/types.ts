@@ -3,6 +3,10 @@ export enum HttpMethod {
     GET = "GET",
     POST = "POST",
     PUT = "PUT",
+    PATCH = "PATCH",
+    DELETE = "DELETE",
+    HEAD = "HEAD",
+    OPTIONS = "OPTIONS",
 }
 
 export enum LogType {
@@ -15,6 +19,85 @@ export enum LogType {
     FAILED = 'FAILED'
 }
 
+export enum ProofVerificationFailureReason {
+    MALFORMED_PROOF = 'MALFORMED_PROOF',
+    IDENTIFIER_MISMATCH = 'IDENTIFIER_MISMATCH',
+    MISSING_WITNESS = 'MISSING_WITNESS',
+    INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+    WITNESS_MISMATCH = 'WITNESS_MISMATCH',
+    UNTRUSTED_WITNESS = 'UNTRUSTED_WITNESS',
+    OWNER_MISMATCH = 'OWNER_MISMATCH',
+    THRESHOLD_NOT_MET = 'THRESHOLD_NOT_MET',
+}
+
+/**
+ * How business logs are delivered:
+ * - 'off': never sent
+ * - 'fire-and-forget': sent in the background, failures are only logged
+ * - 'blocking': awaited, failures abort the call
+ */
+export type TelemetryMode = 'off' | 'fire-and-forget' | 'blocking';
+
+/** How the delay between retries grows */
+export type BackoffStrategy = 'constant' | 'linear' | 'exponential';
+
+/**
+ * Randomization applied to retry delays:
+ * - 'none': use the computed delay
+ * - 'full': random delay between 0 and the computed delay
+ * - 'equal': half the computed delay plus a random share of the other half
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal';
+
+/**
+ * Type of an extracted field:
+ * - 'string': JSON string
+ * - 'number': JSON number or numeric string, parsed to a number
+ * - 'boolean': JSON boolean
+ * - 'decimal': JSON number or numeric string, kept as a string to preserve precision
+ */
+export type ExtractionFieldType = 'string' | 'number' | 'boolean' | 'decimal';
+
+/**
+ * Session signature token format:
+ * - 1: personal_sign over keccak256(JSON payload)
+ * - 2: EIP-712 typed data, verifiable on-chain and readable in wallets
+ */
+export type SessionSignatureVersion = 1 | 2;
+
+/**
+ * Where zkFetch creates the proof:
+ * - 'attestor': on the attestor (default)
+ * - 'tee': in the TEE
+ * - 'tee-with-fallback': in the TEE, on the attestor if the TEE fails
+ * - 'fastest': on both at once, keeping the first proof
+ *
+ * DELETE, HEAD and OPTIONS requests need 'tee', as attestor-core 4.0.3 rejects them.
+ */
+export type ExecutionMode = 'tee' | 'attestor' | 'tee-with-fallback' | 'fastest';
+
+/** Path that produced a proof */
+export type ExecutionPath = 'tee' | 'attestor';
+
+/**
+ * How an allowedUrls entry matches:
+ * - 'exact': the canonical URL must be equal
+ * - 'glob': host, path and query wildcards
+ * - 'regex': regular expression on the canonical URL
+ */
+export type UrlPatternKind = 'exact' | 'glob' | 'regex';
+
+export type UrlPatternLintCode =
+    | 'INVALID_PATTERN'
+    | 'UNANCHORED_REGEX'
+    | 'BROAD_REGEX'
+    | 'IMPLICIT_REGEX'
+    | 'UNESCAPED_DOT'
+    | 'BROAD_HOST'
+    | 'ALLOWS_ALL';
+
+export type UrlPatternLintSeverity = 'error' | 'warning';
+
 export type ProofRequestOptions = {
     log?: boolean;
     sessionId?: string;
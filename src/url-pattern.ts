@@ -0,0 +1,337 @@
+import { InvalidParamError } from './errors';
+import { UrlPattern, UrlPatternLintIssue } from './interfaces';
+
+/** Prefix that marks an allowedUrls entry as a regular expression */
+export const REGEX_PATTERN_PREFIX = 're:';
+
+/**
+ * Auto-detects if a string is a regex pattern
+ * Detects patterns with regex-specific syntax: anchors, escape sequences, character classes, quantifiers, groups
+ */
+export function isRegexPattern(pattern: string): boolean {
+  return (
+    pattern.startsWith('^') ||
+    (pattern.endsWith('$') && !pattern.includes('://')) ||
+    /\\[dDwWsS]|\[([^\]])+\]|\{\d+,?\d*\}|(\([^)]*\).*(?:\?:|\|))/.test(pattern)
+  );
+}
+
+interface CompiledUrlPattern extends UrlPattern {
+  /**
+   * For globs whose only wildcard ends the path: the URL before the wildcard
+   * and whether it continues at a segment boundary ('/*') or anywhere ('*')
+   */
+  prefix?: { url: string; boundary: 'segment' | 'any' };
+  /** Host of a `*.` subdomain wildcard, e.g. 'example.com' */
+  wildcardHost?: string;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// '*' inside a segment or query value matches anything but the separator
+function globToRegex(glob: string, wildcard: string): string {
+  return glob.split('*').map(escapeRegex).join(wildcard);
+}
+
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+function compileRegex(source: string, pattern: string): CompiledUrlPattern {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source);
+  } catch {
+    throw new InvalidParamError(`Invalid regex pattern: ${pattern}`);
+  }
+  return {
+    source: pattern,
+    kind: 'regex',
+    test: url => {
+      const parsed = parseUrl(url);
+      return !!parsed && regex.test(parsed.href);
+    },
+  };
+}
+
+function compileGlob(pattern: string): CompiledUrlPattern {
+  const parts = /^([a-z][a-z0-9+.-]*:\/\/)([^/?#]+)([^?#]*)(?:\?([^#]*))?$/i.exec(pattern);
+  if (!parts) {
+    throw new InvalidParamError(`Invalid URL pattern: ${pattern}`);
+  }
+  const [, scheme, rawAuthority, rawPath, query] = parts;
+  // 'https://api.example.com*' predates path globs and means any path
+  const [authority, path] = rawAuthority.endsWith('*') && !rawPath
+    ? [rawAuthority.slice(0, -1), '/*']
+    : [rawAuthority, rawPath];
+
+  // only a leading '*.' label may be a wildcard in the host
+  const wildcardHost = authority.startsWith('*.');
+  const hostPattern = wildcardHost ? authority.slice(2) : authority;
+  if (hostPattern.includes('*')) {
+    throw new InvalidParamError(`Invalid URL pattern: ${pattern} (only a leading "*." host wildcard is supported)`);
+  }
+  const origin = parseUrl(`${scheme}${hostPattern}`);
+  if (!origin) {
+    throw new InvalidParamError(`Invalid URL pattern: ${pattern}`);
+  }
+
+  // path: '*' matches within one segment, a '**' segment matches any number of
+  // segments and a trailing '*' matches the rest of the path
+  const segments = (path || '/').split('/').slice(1);
+  let pathRegex = '';
+  segments.forEach((segment, index) => {
+    const last = index === segments.length - 1;
+    if (segment === '**') {
+      pathRegex += '(?:/[^/]*)*';
+    } else if (last && segment === '*') {
+      pathRegex += '(?:/.*)?';
+    } else if (last && segment.endsWith('*')) {
+      pathRegex += `/${globToRegex(segment.slice(0, -1), '[^/]*')}.*`;
+    } else if (segment === '*') {
+      pathRegex += '/[^/]+';
+    } else {
+      pathRegex += `/${globToRegex(segment, '[^/]*')}`;
+    }
+  });
+  const pathMatcher = new RegExp(`^${pathRegex}$`);
+
+  // listed query parameters must be present and match, others are allowed
+  const queryConstraints = Array.from(new URLSearchParams(query || '')).map(([name, value]) => ({
+    name,
+    value: new RegExp(`^${globToRegex(value, '.*')}$`),
+  }));
+
+  const hostname = origin.hostname;
+  const compiled: CompiledUrlPattern = {
+    source: pattern,
+    kind: 'glob',
+    test: url => {
+      const parsed = parseUrl(url);
+      if (!parsed || parsed.protocol !== origin.protocol || parsed.port !== origin.port) {
+        return false;
+      }
+      const hostMatches = wildcardHost
+        ? parsed.hostname.endsWith(`.${hostname}`)
+        : parsed.hostname === hostname;
+      if (!hostMatches || !pathMatcher.test(parsed.pathname)) {
+        return false;
+      }
+      return queryConstraints.every(({ name, value }) => {
+        const values = parsed.searchParams.getAll(name);
+        return values.length > 0 && values.every(item => value.test(item));
+      });
+    },
+  };
+
+  if (wildcardHost) {
+    compiled.wildcardHost = hostname;
+  }
+  const starCount = (path.match(/\*/g) || []).length;
+  if (!wildcardHost && !query && starCount === 1 && path.endsWith('*') && !path.endsWith('**')) {
+    compiled.prefix = path.endsWith('/*')
+      ? { url: `${origin.origin}${path.slice(0, -2)}`, boundary: 'segment' }
+      : { url: `${origin.origin}${path.slice(0, -1)}`, boundary: 'any' };
+  }
+  return compiled;
+}
+
+function compilePattern(pattern: string): CompiledUrlPattern {
+  if (typeof pattern !== 'string' || pattern.trim() === '') {
+    throw new InvalidParamError('URL patterns must be non-empty strings');
+  }
+  if (pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+    return compileRegex(pattern.slice(REGEX_PATTERN_PREFIX.length), pattern);
+  }
+  // unprefixed regexes are still detected for tokens issued before 're:'
+  if (isRegexPattern(pattern)) {
+    return compileRegex(pattern, pattern);
+  }
+  if (pattern.includes('*')) {
+    return compileGlob(pattern);
+  }
+
+  const exact = parseUrl(pattern);
+  if (!exact) {
+    throw new InvalidParamError(`Invalid URL pattern: ${pattern}`);
+  }
+  // canonicalized, so path traversal (..) cannot sneak past an exact match
+  return {
+    source: pattern,
+    kind: 'exact',
+    test: url => parseUrl(url)?.href === exact.href,
+  };
+}
+
+// compiled patterns are cached, allowlists are checked on every request
+const MAX_CACHED_PATTERNS = 1000;
+const compiledPatterns = new Map<string, CompiledUrlPattern>();
+
+function getCompiledPattern(pattern: string): CompiledUrlPattern {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    compiled = compilePattern(pattern);
+    if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+      compiledPatterns.clear();
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Compiles an allowedUrls entry
+ *
+ * - 'https://api.example.com/data' - exact match (query included)
+ * - 'https://api.example.com/v1/*' - the base path and anything below it
+ * - 'https://*.example.com/data' - any subdomain of example.com
+ * - a '*' path segment matches exactly one segment, '**' any number of segments
+ *   and '*' within a segment matches any characters but '/'
+ * - 'https://api.example.com/price?ids=*&vs=usd' - listed query parameters must match, others are ignored
+ * - 're:^https://api\\.example\\.com/user/\\d+$' - regular expression on the full URL
+ *
+ * @throws {InvalidParamError} If the pattern is invalid
+ */
+export function compileUrlPattern(pattern: string): UrlPattern {
+  return getCompiledPattern(pattern);
+}
+
+/**
+ * Checks if a URL is allowed by matching against allowed URL patterns
+ *
+ * @param url - The URL to check
+ * @param allowedUrls - Array of allowed URL patterns, see compileUrlPattern
+ * @returns true if URL is allowed
+ */
+export function isUrlAllowed(url: string, allowedUrls: string[]): boolean {
+  // Empty allowedUrls means allow all URLs (signature validation only)
+  if (allowedUrls.length === 0) {
+    return true;
+  }
+  if (!parseUrl(url)) {
+    return false;
+  }
+
+  return allowedUrls.some(pattern => {
+    try {
+      return getCompiledPattern(pattern).test(url);
+    } catch {
+      // Invalid pattern, skip
+      return false;
+    }
+  });
+}
+
+/**
+ * Checks that every URL a pattern matches is also matched by one of the
+ * parent patterns. Regexes and globs with inner wildcards are only accepted
+ * when the parent has the exact same pattern, as their subsets cannot be checked.
+ */
+export function isUrlPatternWithin(pattern: string, parentPatterns: string[]): boolean {
+  // an empty allowlist allows every URL
+  if (parentPatterns.length === 0 || parentPatterns.includes(pattern)) {
+    return true;
+  }
+
+  let child: CompiledUrlPattern;
+  try {
+    child = getCompiledPattern(pattern);
+  } catch {
+    return false;
+  }
+  if (child.kind === 'exact') {
+    return isUrlAllowed(pattern, parentPatterns);
+  }
+  const childPrefix = child.prefix;
+  if (!childPrefix) {
+    return false;
+  }
+
+  return parentPatterns.some(parentPattern => {
+    let parent: CompiledUrlPattern;
+    try {
+      parent = getCompiledPattern(parentPattern);
+    } catch {
+      return false;
+    }
+    if (!parent.prefix) {
+      return false;
+    }
+    const { url, boundary } = parent.prefix;
+    if (boundary === 'any') {
+      return childPrefix.url.startsWith(url);
+    }
+    // a parent '/*' allows its base and anything below it, so the child may
+    // only continue after a '/' unless it starts deeper
+    return childPrefix.url.startsWith(`${url}/`) || (childPrefix.url === url && childPrefix.boundary === 'segment');
+  });
+}
+
+// hosts no allowlist should cover
+const LINT_PROBE_URLS = [
+  'https://reclaim-lint-probe.invalid/',
+  'https://reclaim-lint-probe.invalid/a/b?c=d',
+  'http://reclaim-lint-probe.invalid/',
+];
+
+function lintPattern(pattern: string): UrlPatternLintIssue[] {
+  const issues: UrlPatternLintIssue[] = [];
+  const issue = (code: UrlPatternLintIssue['code'], severity: UrlPatternLintIssue['severity'], message: string) =>
+    issues.push({ pattern, code, severity, message });
+
+  let compiled: CompiledUrlPattern;
+  try {
+    compiled = getCompiledPattern(pattern);
+  } catch (error) {
+    issue('INVALID_PATTERN', 'error', (error as Error).message);
+    return issues;
+  }
+
+  if (compiled.kind === 'regex') {
+    const source = pattern.startsWith(REGEX_PATTERN_PREFIX) ? pattern.slice(REGEX_PATTERN_PREFIX.length) : pattern;
+    if (!pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+      issue('IMPLICIT_REGEX', 'warning', `Detected as a regex, prefix it with "${REGEX_PATTERN_PREFIX}" to make that explicit`);
+    }
+    if (!source.startsWith('^') || !source.endsWith('$')) {
+      issue('UNANCHORED_REGEX', 'warning', 'Regex is not anchored with ^ and $, it also matches URLs that merely contain it');
+    }
+    if (LINT_PROBE_URLS.some(url => compiled.test(url))) {
+      issue('BROAD_REGEX', 'warning', 'Regex matches URLs on unrelated hosts');
+    }
+    // an unescaped '.' in the host matches any character, e.g. apiXexample.com
+    const host = /:(?:\\\/|\/){2}([^/\\]*(?:\\.[^/\\]*)*)/.exec(source)?.[1];
+    if (host && /(^|[^\\])\.(?![*+?])/.test(host)) {
+      issue('UNESCAPED_DOT', 'warning', 'Regex host contains an unescaped ".", which matches any character');
+    }
+  }
+
+  if (compiled.wildcardHost && !compiled.wildcardHost.includes('.')) {
+    issue('BROAD_HOST', 'warning', `"*.${compiled.wildcardHost}" matches every domain under a top-level domain`);
+  }
+  return issues;
+}
+
+/**
+ * Checks allowedUrls for invalid, unanchored or overly broad patterns
+ * @returns One entry per issue; 'error' entries are patterns that cannot be used
+ */
+export function lintAllowedUrls(allowedUrls: string[]): UrlPatternLintIssue[] {
+  if (!Array.isArray(allowedUrls)) {
+    throw new InvalidParamError('allowedUrls must be an array');
+  }
+  if (allowedUrls.length === 0) {
+    return [{
+      pattern: '',
+      code: 'ALLOWS_ALL',
+      severity: 'warning',
+      message: 'An empty allowedUrls allows every URL',
+    }];
+  }
+  return allowedUrls.flatMap(lintPattern);
+}
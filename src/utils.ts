@@ -1,10 +1,12 @@
-import { ApplicationError, InvalidMethodError, InvalidParamError, NetworkError } from './errors';
-import { ApplicationId, ApplicationSecret, HttpMethod } from './types'
-import { Options, Proof, SendLogsParams, TeeUrls } from './interfaces';
+import { AbortError, ApplicationError, InvalidMethodError, InvalidParamError, NetworkError, TimeoutError } from './errors';
+import { ApplicationId, ApplicationSecret, ExecutionMode, HttpMethod } from './types'
+import { Options, Proof, ReclaimEndpoints, SendLogsParams, SignatureData, TeeUrls } from './interfaces';
 import { ethers } from 'ethers';
+import { isUrlAllowed } from './url-pattern';
 import { APP_BACKEND_URL, LOGS_BACKEND_URL, ATTESTOR_NODE_URL } from './constants';
 import P from "pino";
 import { ClaimTunnelResponse } from '@reclaimprotocol/attestor-core/lib/proto/api';
+import type { ProviderParams } from '@reclaimprotocol/attestor-core';
 const logger = P();
 
 interface FeatureFlag {
@@ -13,67 +15,31 @@ interface FeatureFlag {
   type: string;
 }
 
-let cachedAttestorUrl: string | null = null;
-let cachedTeeUrls: TeeUrls | null = null;
-
-/**
- * Gets or creates an owner key (wallet) for the given application ID
- */
-export function getOrCreateOwnerKey(applicationId: string): string {
-  const storageKey = `reclaim_${applicationId}`;
-
-  // Try localStorage (browser environment)
-  if (typeof localStorage !== 'undefined') {
-    try {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        // Validate that it's a valid private key
-        try {
-          new ethers.Wallet(stored);
-          logger.info('Using existing owner key');
-          return stored;
-        } catch {
-          // Invalid key, remove it
-          localStorage.removeItem(storageKey);
-        }
-      }
-    } catch (error) {
-      logger.warn('localStorage not accessible, will generate temporary key');
-    }
-  }
-
-  // Create new owner key
-  const ownerWallet = ethers.Wallet.createRandom();
-  const ownerKey = ownerWallet.privateKey;
-
-  // Try to store in localStorage for persistence
-  if (typeof localStorage !== 'undefined') {
-    try {
-      localStorage.setItem(storageKey, ownerKey);
-    } catch (error) {
-      logger.warn('Could not store owner key, will be temporary');
-    }
-  } else {
-    logger.info('Created owner key');
-  }
-
-  return ownerKey;
-}
+// feature-flag lookups are cached per backend URL
+const cachedAttestorUrls: { [backendUrl: string]: string } = {};
+const cachedTeeUrls: { [backendUrl: string]: TeeUrls } = {};
 
 /**
  * Fetches the attestor URL from the feature flag API
  * Falls back to hardcoded constant if API fails
  * Caches the result for subsequent calls
+ * @param endpoints - Optional endpoint overrides; an explicit attestorUrl skips the lookup
  */
-export async function getAttestorUrl(): Promise<string> {
+export async function getAttestorUrl(endpoints?: ReclaimEndpoints): Promise<string> {
+  if (endpoints?.attestorUrl) {
+    return endpoints.attestorUrl;
+  }
+
+  const backendUrl = endpoints?.backendUrl || APP_BACKEND_URL;
+
   // Return cached value if available
-  if (cachedAttestorUrl) {
-    return cachedAttestorUrl;
+  if (cachedAttestorUrls[backendUrl]) {
+    return cachedAttestorUrls[backendUrl];
   }
 
   try {
     const response = await fetch(
-      `${APP_BACKEND_URL}/api/feature-flags/get?featureFlagNames=zkFetchAttestorURL`,
+      `${backendUrl}/api/feature-flags/get?featureFlagNames=zkFetchAttestorURL`,
       {
         method: 'GET',
         headers: {
@@ -90,30 +56,48 @@ export async function getAttestorUrl(): Promise<string> {
     const attestorFlag = flags.find(f => f.name === 'zkFetchAttestorURL');
 
     if (attestorFlag && attestorFlag.value) {
-      cachedAttestorUrl = attestorFlag.value;
-      return cachedAttestorUrl;
+      cachedAttestorUrls[backendUrl] = attestorFlag.value;
+      return cachedAttestorUrls[backendUrl];
     }
 
     // Flag not found, use fallback
-    cachedAttestorUrl = ATTESTOR_NODE_URL;
-    return cachedAttestorUrl;
+    cachedAttestorUrls[backendUrl] = ATTESTOR_NODE_URL;
+    return cachedAttestorUrls[backendUrl];
   } catch (error) {
     // API failed, use fallback
     logger.warn('Failed to fetch attestor URL from feature flags, using fallback:', error);
-    cachedAttestorUrl = ATTESTOR_NODE_URL;
-    return cachedAttestorUrl;
+    cachedAttestorUrls[backendUrl] = ATTESTOR_NODE_URL;
+    return cachedAttestorUrls[backendUrl];
   }
 }
 
+/**
+ * Attestors a claim is requested from: `endpoints.attestorUrls` when set,
+ * otherwise the single attestor resolved by getAttestorUrl
+ */
+export async function getAttestorUrls(endpoints?: ReclaimEndpoints): Promise<string[]> {
+  if (endpoints?.attestorUrls?.length) {
+    return endpoints.attestorUrls;
+  }
+  return [await getAttestorUrl(endpoints)];
+}
+
 /**
  * Fetches the TEE URLs from the feature flag API
  * Falls back to default TEE URLs if API fails
  * Caches the result for subsequent calls
+ * @param endpoints - Optional endpoint overrides; explicit teeUrls skip the lookup
  */
-export async function getTeeUrls(): Promise<TeeUrls> {
+export async function getTeeUrls(endpoints?: ReclaimEndpoints): Promise<TeeUrls> {
+  if (endpoints?.teeUrls) {
+    return endpoints.teeUrls;
+  }
+
+  const backendUrl = endpoints?.backendUrl || APP_BACKEND_URL;
+
   // Return cached value if available
-  if (cachedTeeUrls) {
-    return cachedTeeUrls;
+  if (cachedTeeUrls[backendUrl]) {
+    return cachedTeeUrls[backendUrl];
   }
 
   const defaultTeeUrls: TeeUrls = {
@@ -124,7 +108,7 @@ export async function getTeeUrls(): Promise<TeeUrls> {
 
   try {
     const response = await fetch(
-      `${APP_BACKEND_URL}/api/feature-flags/get?featureFlagNames=teeUrls`,
+      `${backendUrl}/api/feature-flags/get?featureFlagNames=teeUrls`,
       {
         method: 'GET',
         headers: {
@@ -142,34 +126,207 @@ export async function getTeeUrls(): Promise<TeeUrls> {
 
     if (teeUrlsFlag && teeUrlsFlag.value) {
       const parsedUrls = JSON.parse(teeUrlsFlag.value) as TeeUrls;
-      cachedTeeUrls = parsedUrls;
-      return cachedTeeUrls;
+      cachedTeeUrls[backendUrl] = parsedUrls;
+      return cachedTeeUrls[backendUrl];
     }
 
     // Flag not found, use fallback
-    cachedTeeUrls = defaultTeeUrls;
-    return cachedTeeUrls;
+    cachedTeeUrls[backendUrl] = defaultTeeUrls;
+    return cachedTeeUrls[backendUrl];
   } catch (error) {
     // API failed, use fallback
     logger.warn('Failed to fetch TEE URLs from feature flags, using fallback:', error);
-    cachedTeeUrls = defaultTeeUrls;
-    return cachedTeeUrls;
+    cachedTeeUrls[backendUrl] = defaultTeeUrls;
+    return cachedTeeUrls[backendUrl];
   }
 }
 
 /*
   Options validations utils
 */
+// methods whose request body has no defined meaning
+const METHODS_WITHOUT_BODY = [HttpMethod.GET, HttpMethod.HEAD, HttpMethod.OPTIONS];
+const EXECUTION_MODES: ExecutionMode[] = ['tee', 'attestor', 'tee-with-fallback', 'fastest'];
+// the http provider schema of attestor-core 4.0.3 rejects every other method
+const ATTESTOR_METHODS: string[] = [HttpMethod.GET, HttpMethod.POST, HttpMethod.PUT, HttpMethod.PATCH];
+
+/* Whether the attestor accepts the method */
+export function isAttestorMethod(method: string): method is ProviderParams<'http'>['method'] {
+  return ATTESTOR_METHODS.includes(method);
+}
+
 export function assertCorrectnessOfOptions(options: Options): void {
   if (!options.method) {
     throw new InvalidParamError('Method is required');
   }
-  if (options.method !== HttpMethod.GET && options.method !== HttpMethod.POST && options.method !== HttpMethod.PUT) {
+  if (!Object.values(HttpMethod).includes(options.method as HttpMethod)) {
     throw new InvalidMethodError(`Method ${options.method} is not allowed`);
   }
+  if (options.body && METHODS_WITHOUT_BODY.includes(options.method as HttpMethod)) {
+    throw new InvalidParamError(`A body is not allowed for ${options.method} requests`);
+  }
+  if (options.timeoutMs !== undefined && (!Number.isFinite(options.timeoutMs) || options.timeoutMs <= 0)) {
+    throw new InvalidParamError('timeoutMs must be a positive number');
+  }
+  if (options.executionMode !== undefined && !EXECUTION_MODES.includes(options.executionMode)) {
+    throw new InvalidParamError(`executionMode must be one of ${EXECUTION_MODES.join(', ')}`);
+  }
+  const mode = resolveExecutionMode(options);
+  if (mode !== 'tee' && !isAttestorMethod(options.method)) {
+    if (mode !== 'attestor') {
+      // the attestor path of these modes could never run the request
+      throw new InvalidMethodError(
+        `Method ${options.method} cannot be used with executionMode '${mode}' because the attestor accepts only ` +
+        `${ATTESTOR_METHODS.join(', ')}; use executionMode 'tee'`
+      );
+    }
+    throw new InvalidMethodError(
+      `Method ${options.method} is not supported by the attestor, which accepts ${ATTESTOR_METHODS.join(', ')}`
+    );
+  }
+}
+
+/* executionMode wins over the older useTee flag */
+export function resolveExecutionMode(options?: Pick<Options, 'useTee' | 'executionMode'>): ExecutionMode {
+  return options?.executionMode ?? (options?.useTee ? 'tee' : 'attestor');
+}
+
+
+/*
+  Cancellation utils
+*/
+export interface RequestDeadline {
+  /** Aborts when the caller's signal aborts or the timeout elapses */
+  signal: AbortSignal;
+  /** Milliseconds left before the timeout, undefined if there is none */
+  remainingMs(): number | undefined;
+  /** Clears the timeout timer and detaches from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combines an optional caller signal and timeout into a single signal.
+ * The signal's reason is an AbortError or TimeoutError respectively.
+ */
+export function createRequestDeadline(signal?: AbortSignal, timeoutMs?: number): RequestDeadline {
+  const controller = new AbortController();
+  const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+
+  const onAbort = () => controller.abort(new AbortError('Request was aborted'));
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => controller.abort(new TimeoutError(`Request timed out after ${timeoutMs}ms`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    remainingMs: () => deadline !== undefined ? Math.max(deadline - Date.now(), 0) : undefined,
+    dispose: () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/* Throws the signal's AbortError/TimeoutError if it has been aborted */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (!signal?.aborted) {
+    return;
+  }
+  if (signal.reason instanceof AbortError || signal.reason instanceof TimeoutError) {
+    throw signal.reason;
+  }
+  throw new AbortError('Request was aborted');
+}
+
+/* Rejects as soon as the signal aborts, otherwise settles with the promise */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      try {
+        throwIfAborted(signal);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/* Waits for the given time, rejecting early if the signal aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceWithSignal(new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  }), signal);
+}
+
+/* Aborts as soon as any of the given signals aborts, keeping its reason */
+export function linkSignals(...signals: (AbortSignal | undefined)[]): { signal: AbortSignal; dispose(): void } {
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+
+  for (const signal of signals) {
+    if (!signal) {
+      continue;
+    }
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    listeners.push([signal, onAbort]);
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      for (const [signal, onAbort] of listeners) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+
+/*
+  Concurrency utils
+*/
+/* Runs task(0..count-1) with at most `concurrency` tasks in flight */
+export async function runWithConcurrency(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < count) {
+      const index = next++;
+      await task(index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
 }
 
 
+
 /*
   Params validations utils
 */
@@ -207,17 +364,86 @@ export function validateApplicationIdAndSecret(applicationId: ApplicationId, app
 }
 
 /* validate that application is registered */
-export async function validateAppRegistration(applicationId: ApplicationId): Promise<void> {
-  await fetchAppById(applicationId);
+export async function validateAppRegistration(applicationId: ApplicationId, endpoints?: ReclaimEndpoints): Promise<void> {
+  await fetchAppById(applicationId, endpoints);
+}
+
+/* validate endpoint overrides */
+export function validateEndpoints(endpoints: ReclaimEndpoints): void {
+  const urls: { [name: string]: string | undefined } = {
+    attestorUrl: endpoints.attestorUrl,
+    backendUrl: endpoints.backendUrl,
+    logsUrl: endpoints.logsUrl,
+    'teeUrls.teekUrl': endpoints.teeUrls?.teekUrl,
+    'teeUrls.teetUrl': endpoints.teeUrls?.teetUrl,
+    'teeUrls.teeAttestorUrl': endpoints.teeUrls?.teeAttestorUrl,
+  };
+
+  if (endpoints.teeUrls && Object.keys(urls).some(name => name.startsWith('teeUrls.') && !urls[name])) {
+    throw new InvalidParamError('teeUrls must include teekUrl, teetUrl and teeAttestorUrl');
+  }
+
+  if (endpoints.attestorUrls !== undefined) {
+    const { attestorUrls } = endpoints;
+    if (!Array.isArray(attestorUrls) || attestorUrls.length === 0) {
+      throw new InvalidParamError('attestorUrls must be a non-empty array');
+    }
+    if (endpoints.attestorUrl) {
+      throw new InvalidParamError('Set either attestorUrl or attestorUrls, not both');
+    }
+    if (new Set(attestorUrls).size !== attestorUrls.length) {
+      throw new InvalidParamError('attestorUrls must not contain duplicates');
+    }
+    attestorUrls.forEach((url, index) => {
+      urls[`attestorUrls[${index}]`] = url;
+    });
+  }
+
+  for (const name of Object.keys(urls)) {
+    const url = urls[name];
+    if (url === undefined) {
+      continue;
+    }
+    try {
+      new URL(url);
+    } catch {
+      throw new InvalidParamError(`Invalid URL passed as endpoints.${name}: ${url}`);
+    }
+  }
+}
+
+/**
+ * Canonically stringifies a JSON value (keys sorted recursively),
+ * so the same object always serializes to the same string
+ */
+export function canonicalStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  // e.g. Date, serialized the way JSON.stringify does
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalStringify((value as { toJSON(): unknown }).toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
 }
 
 /* Transform Proof */
-export async function transformProof(proof: ClaimTunnelResponse): Promise<Proof> {
+export async function transformProof(proof: ClaimTunnelResponse, attestorUrl?: string): Promise<Proof> {
   if (!proof || !proof.claim || !proof.signatures) {
     throw new InvalidParamError("Invalid proof object");
   }
 
-  const attestorUrl = await getAttestorUrl();
+  attestorUrl = attestorUrl || await getAttestorUrl();
 
   return {
     claimData: proof.claim,
@@ -232,6 +458,27 @@ export async function transformProof(proof: ClaimTunnelResponse): Promise<Proof>
         url: attestorUrl,
       },
     ],
+    executionPath: 'attestor',
+  };
+}
+
+/**
+ * Combines proofs of the same claim from several attestors into one proof.
+ * Attestors sign their own timestamp and epoch, so each witness records them.
+ */
+export function aggregateProofs(proofs: Proof[]): Proof {
+  if (proofs.length === 0 || proofs.some(proof => proof.identifier !== proofs[0].identifier)) {
+    throw new InvalidParamError('Only proofs of the same claim can be aggregated');
+  }
+
+  return {
+    ...proofs[0],
+    signatures: proofs.flatMap(proof => proof.signatures),
+    witnesses: proofs.flatMap(proof => proof.witnesses.map(witness => ({
+      ...witness,
+      timestampS: proof.claimData.timestampS,
+      epoch: proof.claimData.epoch,
+    }))),
   };
 }
 
@@ -269,6 +516,7 @@ export async function transformTeeProof(result: any, teeAttestorUrl: string): Pr
       url: teeAttestorUrl,
     })),
     extractedParameterValues: extractedParams,
+    executionPath: 'tee',
   };
 }
 
@@ -285,120 +533,51 @@ export function validateURL(url: string, functionName: string): void {
   }
 }
 
+// URL pattern matching moved to url-pattern.ts, re-exported for existing imports
+export { isRegexPattern, isUrlAllowed } from './url-pattern';
+
 /**
- * Auto-detects if a string is a regex pattern
- * Detects patterns with regex-specific syntax: anchors, escape sequences, character classes, quantifiers, groups
+ * Resolves the methods a session signature allows for a URL: the union of
+ * `methodsByPattern` entries whose pattern matches, else `allowedMethods`
+ * @returns Allowed methods, or undefined if any method is allowed
  */
-export function isRegexPattern(pattern: string): boolean {
-  return (
-    pattern.startsWith('^') ||
-    (pattern.endsWith('$') && !pattern.includes('://')) ||
-    /\\[dDwWsS]|\[([^\]])+\]|\{\d+,?\d*\}|(\([^)]*\).*(?:\?:|\|))/.test(pattern)
-  );
+export function getAllowedMethods(url: string, signatureData: SignatureData): string[] | undefined {
+  const matching = Object.entries(signatureData.methodsByPattern || {})
+    .filter(([pattern]) => isUrlAllowed(url, [pattern]));
+  if (matching.length) {
+    // an empty list, e.g. narrowed by a delegated token, allows no method
+    return Array.from(new Set(matching.flatMap(([, methods]) => methods)));
+  }
+  return signatureData.allowedMethods;
 }
 
 /**
- * Checks if a URL is allowed by matching against allowed URL patterns
- *
- * Supports multiple pattern types (auto-detected):
- * - 'https://api.example.com/data' - exact match
- * - 'https://api.example.com/*' - wildcard match
- * - '^https://api\\.example\\.com/user/\\d+$' - regex pattern (auto-detected)
- *
- * @param url - The URL to check
- * @param allowedUrls - Array of allowed URL patterns
- * @returns true if URL is allowed
+ * Size of a request body in bytes once {{param}} placeholders are substituted
  */
-export function isUrlAllowed(url: string, allowedUrls: string[]): boolean {
-  // Empty allowedUrls means allow all URLs (signature validation only)
-  if (allowedUrls.length === 0) {
-    return true;
+export function getBodyByteLength(body: string | undefined, paramValues: { [key: string]: string }): number {
+  if (!body) {
+    return 0;
   }
-
-  // Security: Canonicalize URL to prevent path traversal attacks
-  // This resolves .. segments and normalizes the URL
-  let canonicalUrl: string;
-  let parsedUrl: URL;
-  try {
-    parsedUrl = new URL(url);
-    canonicalUrl = parsedUrl.href;
-  } catch {
-    return false; // Invalid URL format
-  }
-
-  for (const allowedUrl of allowedUrls) {
-    // Regex pattern match
-    if (isRegexPattern(allowedUrl)) {
-      try {
-        if (new RegExp(allowedUrl).test(canonicalUrl)) {
-          return true;
-        }
-      } catch {
-        // Invalid regex, skip
-      }
-      continue;
-    }
-
-    // Exact match
-    if (canonicalUrl === allowedUrl) {
-      return true;
-    }
-
-    // Wildcard match: handle both /* and * suffixes
-    if (allowedUrl.endsWith('*')) {
-      const baseUrl = allowedUrl.endsWith('/*')
-        ? allowedUrl.slice(0, -2)
-        : allowedUrl.slice(0, -1);
-
-      // Security: Parse base URL to validate hostname boundaries
-      // This prevents subdomain attacks like api.example.com.evil.com
-      try {
-        const parsedBase = new URL(baseUrl);
-
-        // Verify scheme matches (http vs https)
-        if (parsedUrl.protocol !== parsedBase.protocol) {
-          continue;
-        }
-
-        // Verify hostname matches exactly (prevents subdomain bypass)
-        if (parsedUrl.hostname !== parsedBase.hostname) {
-          continue;
-        }
-
-        // Verify port matches (prevents port-based bypass)
-        if (parsedUrl.port !== parsedBase.port) {
-          continue;
-        }
-
-        // Verify path starts with base path (now safe after hostname check)
-        if (parsedUrl.pathname.startsWith(parsedBase.pathname)) {
-          return true;
-        }
-      } catch {
-        // If base URL is invalid, fall back to simple string matching
-        // for backward compatibility with edge cases
-        if (canonicalUrl.startsWith(baseUrl)) {
-          return true;
-        }
-      }
-    }
-  }
-
-  return false;
+  const substituted = body.replace(/{{([^{}]+)}}/g, (placeholder, name) =>
+    paramValues[name] !== undefined ? paramValues[name] : placeholder
+  );
+  return ethers.utils.toUtf8Bytes(substituted).length;
 }
 
 
 // cache for app name to avoid multiple fetches 
 const appNameCache: { [key: string]: string } = {};
 
-export async function fetchAppById(appId: string): Promise<string> {
-  if (appNameCache[appId]) {
-    return appNameCache[appId];
+export async function fetchAppById(appId: string, endpoints?: ReclaimEndpoints): Promise<string> {
+  const backendUrl = endpoints?.backendUrl || APP_BACKEND_URL;
+  const cacheKey = `${backendUrl}:${appId}`;
+  if (appNameCache[cacheKey]) {
+    return appNameCache[cacheKey];
   }
   try {
     // Deprecated: zkfetch applications migrated to applications
     // const response = await fetch(`${APP_BACKEND_URL}/api/zkfetch/sdk/${appId}`);
-    const response = await fetch(`${APP_BACKEND_URL}/api/applications/sdk/get-zk-enabled-app/${appId}`);
+    const response = await fetch(`${backendUrl}/api/applications/sdk/get-zk-enabled-app/${appId}`);
     if (response.status === 404) {
       throw new ApplicationError('Application not found');
     }
@@ -408,7 +587,7 @@ export async function fetchAppById(appId: string): Promise<string> {
 
     const res = await response.json();
     const appName = res.application.name;
-    appNameCache[appId] = appName; // Update cache
+    appNameCache[cacheKey] = appName; // Update cache
     return appName;
   } catch (err) {
     throw new ApplicationError('Application not found');
@@ -423,11 +602,12 @@ export async function sendLogs(
     sessionId,
     logType,
     applicationId
-  }: SendLogsParams
+  }: SendLogsParams,
+  endpoints?: ReclaimEndpoints
 ): Promise<void> {
   try {
-    const getAppName = await fetchAppById(applicationId);
-    const url = `${LOGS_BACKEND_URL}/api/business-logs/zkfetch`
+    const getAppName = await fetchAppById(applicationId, endpoints);
+    const url = `${endpoints?.logsUrl || LOGS_BACKEND_URL}/api/business-logs/zkfetch`
     const body = JSON.stringify({
       sessionId,
       logType,
@@ -0,0 +1,234 @@
+import { ethers } from 'ethers';
+import { InvalidParamError } from './errors';
+import { canonicalStringify } from './utils';
+import { getOwnerKeyChainError } from './owner-key';
+import { ProofVerificationFailureReason } from './types';
+import {
+  Proof,
+  ProviderClaimData,
+  VerifyProofOptions,
+  ProofVerificationFailure,
+  ProofVerificationResult,
+} from './interfaces';
+
+/**
+ * Computes the claim identifier the attestor signs over:
+ * keccak256(provider + "\n" + parameters + "\n" + canonical(context))
+ */
+export function getClaimIdentifier(
+  claimData: Pick<ProviderClaimData, 'provider' | 'parameters' | 'context'>
+): string {
+  let context = claimData.context || '';
+  if (context.length > 0) {
+    try {
+      const parsed = JSON.parse(context);
+      // attestor-core canonicalizes falsy contexts (null, false, 0, "") to an empty string
+      context = parsed ? canonicalStringify(parsed) : '';
+    } catch {
+      throw new InvalidParamError('Unable to parse non-empty claim context. Must be JSON');
+    }
+  }
+
+  const str = `${claimData.provider}\n${claimData.parameters}\n${context}`;
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(str)).toLowerCase();
+}
+
+/**
+ * Builds the message an attestor signs for a claim
+ */
+export function createClaimSignData(
+  claimData: Pick<ProviderClaimData, 'owner' | 'timestampS' | 'epoch'>,
+  identifier: string
+): string {
+  return [
+    identifier,
+    // owner is lowercased so addresses always serialize the same way
+    claimData.owner.toLowerCase(),
+    claimData.timestampS.toString(),
+    claimData.epoch.toString(),
+  ].join('\n');
+}
+
+/**
+ * Normalizes a witness ID to a lowercase address.
+ * Some attestors report their address hex-encoded as UTF-8 bytes
+ * (e.g. "0x3078..." for "0x..."), which is decoded here.
+ */
+export function normalizeWitnessId(id: string): string {
+  if (typeof id !== 'string') {
+    return '';
+  }
+
+  if (/^0x[0-9a-fA-F]{84}$/.test(id)) {
+    try {
+      const decoded = ethers.utils.toUtf8String(id);
+      if (ethers.utils.isAddress(decoded)) {
+        return decoded.toLowerCase();
+      }
+    } catch {
+      // Not UTF-8 encoded, use as-is
+    }
+  }
+
+  return id.toLowerCase();
+}
+
+/**
+ * Verifies a proof offline
+ *
+ * Recomputes the claim identifier, recovers the signer of every signature
+ * and checks it against the matching witness and the trusted attestor set.
+ * With `expectedOwner`, also checks the claim owner, following `ownerLinks`
+ * across owner key rotations. With `threshold`, the proof is valid once that
+ * many distinct trusted witnesses signed it, e.g. for k-of-n attestor quorums.
+ *
+ * @param proof - Proof returned by zkFetch
+ * @param options - Verification options
+ * @returns Verification result with per-check failure reasons
+ */
+export function verifyProof(proof: Proof, options: VerifyProofOptions): ProofVerificationResult {
+  if (!options || !Array.isArray(options.trustedWitnesses)) {
+    throw new InvalidParamError('trustedWitnesses must be an array');
+  }
+  const { threshold } = options;
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 1)) {
+    throw new InvalidParamError('threshold must be a positive integer');
+  }
+
+  const failures: ProofVerificationFailure[] = [];
+  const signers: (string | null)[] = [];
+
+  const claimData = proof?.claimData;
+  if (
+    !claimData ||
+    !Array.isArray(proof.signatures) ||
+    !Array.isArray(proof.witnesses) ||
+    proof.signatures.length === 0
+  ) {
+    return {
+      isValid: false,
+      identifier: '',
+      signers,
+      failures: [{
+        reason: ProofVerificationFailureReason.MALFORMED_PROOF,
+        message: 'Proof must contain claimData and at least one signature',
+      }],
+    };
+  }
+
+  let identifier: string;
+  try {
+    identifier = getClaimIdentifier(claimData);
+  } catch (error) {
+    return {
+      isValid: false,
+      identifier: '',
+      signers,
+      failures: [{
+        reason: ProofVerificationFailureReason.MALFORMED_PROOF,
+        message: (error as Error).message,
+      }],
+    };
+  }
+
+  if (claimData.identifier?.toLowerCase() !== identifier) {
+    failures.push({
+      reason: ProofVerificationFailureReason.IDENTIFIER_MISMATCH,
+      message: `claimData.identifier ${claimData.identifier} does not match computed identifier ${identifier}`,
+    });
+  }
+
+  if (proof.identifier?.toLowerCase() !== identifier) {
+    failures.push({
+      reason: ProofVerificationFailureReason.IDENTIFIER_MISMATCH,
+      message: `Proof identifier ${proof.identifier} does not match computed identifier ${identifier}`,
+    });
+  }
+
+  const trusted = new Set(options.trustedWitnesses.map(normalizeWitnessId));
+  // distinct trusted signers whose signature passed every check
+  const accepted = new Set<string>();
+
+  proof.signatures.forEach((signature, index) => {
+    const witness = proof.witnesses[index];
+    // witnesses of aggregated proofs carry the timestamp and epoch they signed
+    const signData = createClaimSignData({
+      owner: claimData.owner,
+      timestampS: witness?.timestampS ?? claimData.timestampS,
+      epoch: witness?.epoch ?? claimData.epoch,
+    }, identifier);
+
+    let signer: string | null = null;
+    try {
+      signer = ethers.utils.verifyMessage(signData, signature).toLowerCase();
+    } catch {
+      failures.push({
+        reason: ProofVerificationFailureReason.INVALID_SIGNATURE,
+        message: 'Unable to recover signer from signature',
+        index,
+      });
+    }
+    signers.push(signer);
+
+    if (!witness) {
+      failures.push({
+        reason: ProofVerificationFailureReason.MISSING_WITNESS,
+        message: 'No witness recorded for signature',
+        index,
+      });
+      return;
+    }
+
+    if (!signer) {
+      return;
+    }
+
+    if (normalizeWitnessId(witness.id) !== signer) {
+      failures.push({
+        reason: ProofVerificationFailureReason.WITNESS_MISMATCH,
+        message: `Signature was produced by ${signer}, not witness ${witness.id}`,
+        index,
+      });
+    }
+
+    if (!trusted.has(signer)) {
+      failures.push({
+        reason: ProofVerificationFailureReason.UNTRUSTED_WITNESS,
+        message: `Signer ${signer} is not a trusted witness`,
+        index,
+      });
+    }
+
+    if (normalizeWitnessId(witness.id) === signer && trusted.has(signer)) {
+      accepted.add(signer);
+    }
+  });
+
+  if (options.expectedOwner !== undefined) {
+    const ownerError = getOwnerKeyChainError(claimData.owner || '', options.expectedOwner, options.ownerLinks);
+    if (ownerError) {
+      failures.push({
+        reason: ProofVerificationFailureReason.OWNER_MISMATCH,
+        message: ownerError,
+      });
+    }
+  }
+
+  if (threshold === undefined) {
+    return { isValid: failures.length === 0, identifier, signers, failures };
+  }
+
+  if (accepted.size < threshold) {
+    failures.push({
+      reason: ProofVerificationFailureReason.THRESHOLD_NOT_MET,
+      message: `${accepted.size} trusted witnesses signed the claim, ${threshold} required`,
+    });
+  }
+  return {
+    // failures of single signatures only count through the threshold
+    isValid: failures.every(failure => failure.index !== undefined),
+    identifier,
+    signers,
+    failures,
+  };
+}
@@ -1,44 +1,135 @@
 import { createClaimOnAttestor } from "@reclaimprotocol/attestor-core";
-import { HttpMethod, LogType } from "./types";
-import { Options, secretOptions, SignatureData } from "./interfaces";
+import { ExecutionMode, ExecutionPath, HttpMethod, LogType, TelemetryMode } from "./types";
 import {
+  EncodedOptions,
+  ExtractedProof,
+  ExtractionSchema,
+  LoadCircuitsOptions,
+  LogSink,
+  Options,
+  OwnerKeyLink,
+  OwnerKeyStore,
+  Proof,
+  ReclaimClientOptions,
+  ReclaimEndpoints,
+  ReclaimError,
+  RetryPolicy,
+  RevocationListProvider,
+  secretOptions,
+  SignatureData,
+  TeeBackend,
+  TeePoolOptions,
+  ZkFetchManyOptions,
+  ZkFetchPreview,
+  ZkFetchRequest,
+  ZkFetchResult,
+} from "./interfaces";
+import {
+  RequestDeadline,
   assertCorrectnessOfOptions,
   validateURL,
-  sendLogs,
   validateApplicationIdAndSecret,
   transformProof,
   transformTeeProof,
   getAttestorUrl,
+  getAttestorUrls,
+  aggregateProofs,
   getTeeUrls,
   isUrlAllowed,
-  getOrCreateOwnerKey,
+  isAttestorMethod,
+  validateEndpoints,
+  createRequestDeadline,
+  raceWithSignal,
+  throwIfAborted,
+  linkSignals,
+  resolveExecutionMode,
+  runWithConcurrency,
+  fetchAppById,
+  getAllowedMethods,
+  getBodyByteLength,
 } from "./utils";
 import { v4 } from "uuid";
+import { ethers } from "ethers";
 import P from "pino";
-import { verifySessionSignature } from "./signature";
-import { InvalidParamError } from "./errors";
+import { checkSessionSignature, verifySessionSignature } from "./signature";
+import { normalizeWitnessId } from "./verify";
+import {
+  AbortError,
+  AttestorQuorumError,
+  ClaimCreationError,
+  InvalidMethodError,
+  InvalidParamError,
+  RedactionError,
+  RequestNotAllowedError,
+  ResponseMatchError,
+  SignatureExpiredError,
+  TeeProtocolError,
+  TimeoutError,
+  UpstreamStatusError,
+  UrlNotAllowedError,
+  ZkFetchError,
+  toZkFetchError,
+} from "./errors";
 import { ReclaimSDK } from "./tee";
+import { HttpLogSink, emitLog, resolveTelemetryMode } from "./telemetry";
+import { legacyRetryPolicy, resolveRetryPolicy, retryWithPolicy } from "./retry";
+import { DEFAULT_BATCH_CONCURRENCY } from "./constants";
+import { applyExtractionSchema, parseExtractedValues } from "./extraction";
+import { previewRequest } from "./preview";
+import { encodeRequestBody } from "./body";
+import { createOwnerKeyLink, getDefaultOwnerKeyStore, getOrCreateOwnerKey, normalizeOwnerKey } from "./owner-key";
 const logger = P();
 
+/*
+ * TEE failures the attestor may not share. Cancellation and failures of the
+ * upstream request itself would fail the same way on the attestor.
+ */
+function canFallBackToAttestor(error: unknown): boolean {
+  return !(
+    error instanceof AbortError ||
+    error instanceof TimeoutError ||
+    error instanceof ResponseMatchError ||
+    error instanceof RedactionError ||
+    error instanceof UpstreamStatusError
+  );
+}
+
 export class ReclaimClient {
   applicationId: string;
   applicationSecret?: string;
   signatureData?: SignatureData;
+  /**
+   * Owner key of a signature-mode client. It is loaded lazily, so this is
+   * undefined until the first zkFetch; `exportOwnerKey()` resolves it.
+   */
   ownerKey?: string;
   logs?: boolean;
+  endpoints: ReclaimEndpoints;
+  telemetry: TelemetryMode;
+  retryPolicy: RetryPolicy;
+  private logSink: LogSink;
   private teeSDK?: ReclaimSDK;
+  private teePoolOptions?: TeePoolOptions;
+  private teeCircuits?: LoadCircuitsOptions | false;
+  private teeCircuitsPromise?: Promise<void>;
+  private teeBackend?: TeeBackend;
+  private attestorQuorum?: number;
+  private ownerKeyStore?: OwnerKeyStore;
+  private ownerKeyPromise?: Promise<string>;
+  private sessionSignature?: string;
+  private revocationProvider?: RevocationListProvider;
   sessionId: string;
 
   /**
    * Creates a new ReclaimClient instance
    * @param applicationId - Your Reclaim application ID
    * @param applicationSecret - Either application secret (0x...) or signature (ey...)
-   * @param logs - Enable logging (optional, default: false)
+   * @param options - Enable logging (boolean, default: false) or a client options object
    */
   constructor(
     applicationId: string,
     applicationSecret: string,
-    logs?: boolean
+    options?: boolean | ReclaimClientOptions
   ) {
     // Validate applicationId
     if (!applicationId || typeof applicationId !== 'string') {
@@ -50,12 +141,31 @@ export class ReclaimClient {
       throw new InvalidParamError('applicationSecret must be a non-empty string');
     }
 
+    const clientOptions: ReclaimClientOptions =
+      typeof options === 'object' && options !== null ? options : { logs: options };
+
+    this.endpoints = { ...clientOptions.endpoints };
+    validateEndpoints(this.endpoints);
+    this.telemetry = resolveTelemetryMode(clientOptions.telemetry);
+    this.logSink = clientOptions.logSink || new HttpLogSink(this.endpoints);
+    this.retryPolicy = resolveRetryPolicy(clientOptions.retryPolicy);
+    this.teePoolOptions = clientOptions.teePool;
+    this.teeCircuits = clientOptions.teeCircuits;
+    this.teeBackend = clientOptions.teeBackend;
+
+    const attestorCount = this.endpoints.attestorUrls?.length || 1;
+    const quorum = clientOptions.attestorQuorum;
+    if (quorum !== undefined && (!Number.isInteger(quorum) || quorum < 1 || quorum > attestorCount)) {
+      throw new InvalidParamError(`attestorQuorum must be an integer between 1 and ${attestorCount}`);
+    }
+    this.attestorQuorum = quorum;
+
     this.applicationId = applicationId;
     this.sessionId = v4().toString();
-    this.logs = logs;
+    this.logs = clientOptions.logs;
 
     // Set up logger
-    logger.level = logs ? "info" : "silent";
+    logger.level = this.logs ? "info" : "silent";
 
     // Auto-detect authentication method based on format and length
     if (applicationSecret.startsWith('0x')) {
@@ -76,12 +186,16 @@ export class ReclaimClient {
       }
 
       this.signatureData = verifySessionSignature(applicationSecret);
+      // revocation is checked before every request, see assertNotRevoked
+      this.sessionSignature = applicationSecret;
+      this.revocationProvider = clientOptions.revocationProvider;
 
       if (this.signatureData.applicationId.toLowerCase() !== applicationId.toLowerCase()) {
         throw new InvalidParamError('Signature applicationId does not match provided applicationId');
       }
 
-      this.ownerKey = getOrCreateOwnerKey(this.applicationId);
+      // the owner key is loaded from the store on first use
+      this.ownerKeyStore = clientOptions.ownerKeyStore || getDefaultOwnerKeyStore();
 
       logger.info(
         `Initializing client with applicationId: ${this.applicationId} and sessionId: ${this.sessionId}`
@@ -93,64 +207,498 @@ export class ReclaimClient {
     }
   }
 
+  /**
+   * Fetches a URL and generates a proof of the response
+   * @param url - URL to fetch
+   * @param options - Public request options (revealed in the proof)
+   * @param secretOptions - Private request options (hidden from the proof); with an
+   * `extraction` schema the proof carries the parsed values in `extracted`
+   * @param retries - Deprecated, use `retryPolicy.maxAttempts`
+   * @param retryInterval - Deprecated, use `retryPolicy.initialDelayMs`; sets a constant delay
+   */
+  async zkFetch<S extends ExtractionSchema>(
+    url: string,
+    options: Options | undefined,
+    secretOptions: secretOptions & { extraction: S },
+    retries?: number,
+    retryInterval?: number
+  ): Promise<ExtractedProof<S>>;
   async zkFetch(
     url: string,
     options?: Options,
     secretOptions?: secretOptions,
-    retries = 1,
-    retryInterval = 1000
-  ) {
-    validateURL(url, "zkFetch");
-    if (options !== undefined) {
-      assertCorrectnessOfOptions(options);
+    retries?: number,
+    retryInterval?: number
+  ): Promise<Proof>;
+  async zkFetch(
+    url: string,
+    options?: Options,
+    secretOptions?: secretOptions,
+    retries?: number,
+    retryInterval?: number
+  ): Promise<Proof> {
+    return this.runZkFetch(url, options, secretOptions, legacyRetryPolicy(retries, retryInterval), this.endpoints);
+  }
+
+  /**
+   * Fetches several URLs and generates a proof for each, reusing this client's session
+   *
+   * Feature-flag URLs and the application lookup are resolved once for the whole batch.
+   * Failures do not reject the returned promise; each request gets its own result.
+   * @param requests - Requests to prove
+   * @param batchOptions - Concurrency limit, fail-fast behaviour and a batch-wide signal
+   * @returns Per-request results, in the order of `requests`
+   */
+  async zkFetchMany(
+    requests: ZkFetchRequest[],
+    batchOptions: ZkFetchManyOptions = {}
+  ): Promise<ZkFetchResult[]> {
+    if (!Array.isArray(requests)) {
+      throw new InvalidParamError('requests must be an array');
+    }
+    const concurrency = batchOptions.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidParamError('concurrency must be a positive integer');
     }
 
-    // If using signature mode, verify URL is allowed
-    if (this.signatureData) {
-      if (!isUrlAllowed(url, this.signatureData.allowedUrls)) {
-        throw new InvalidParamError(
-          `URL "${url}" is not allowed by the signature. Allowed patterns: ${this.signatureData.allowedUrls.join(', ')}`
-        );
-      }
+    // failFast aborts this controller, cancelling in-flight and pending requests
+    const batch = new AbortController();
+    const batchSignal = linkSignals(batchOptions.signal, batch.signal);
+    const results: ZkFetchResult[] = new Array(requests.length);
+
+    try {
+      const endpoints = await this.resolveBatchEndpoints(requests, batchSignal.signal);
+
+      await runWithConcurrency(requests.length, concurrency, async (index) => {
+        const { url, options, secretOptions } = requests[index];
+        try {
+          throwIfAborted(batchSignal.signal);
+          const proof = await this.runZkFetch(url, options, secretOptions, {}, endpoints, batchSignal.signal);
+          results[index] = { status: 'fulfilled', url, value: proof };
+        } catch (error) {
+          results[index] = { status: 'rejected', url, reason: error };
+          if (batchOptions.failFast && !batch.signal.aborted) {
+            batch.abort(new AbortError('Batch was aborted after a request failed'));
+          }
+        }
+      });
+    } finally {
+      batchSignal.dispose();
     }
 
+    return results;
+  }
+
+  /**
+   * Resolves the attestor/TEE URLs and warms the application lookup once for a batch
+   */
+  private async resolveBatchEndpoints(
+    requests: ZkFetchRequest[],
+    signal: AbortSignal
+  ): Promise<ReclaimEndpoints> {
+    const endpoints: ReclaimEndpoints = { ...this.endpoints };
+
+    const modes = requests.map(request => resolveExecutionMode(request?.options));
+    if (modes.some(mode => mode !== 'tee') && !this.endpoints.attestorUrls) {
+      endpoints.attestorUrl = await raceWithSignal(getAttestorUrl(this.endpoints), signal);
+    }
+    if (modes.some(mode => mode !== 'attestor')) {
+      endpoints.teeUrls = await raceWithSignal(getTeeUrls(this.endpoints), signal);
+    }
+
+    // business logs look up the application name; a failure surfaces through telemetry
+    if (this.telemetry !== 'off' && this.logSink instanceof HttpLogSink) {
+      await raceWithSignal(fetchAppById(this.applicationId, this.endpoints), signal).catch(() => undefined);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Validates and runs a single request
+   * @param legacyPolicy - Policy derived from the deprecated retries/retryInterval arguments
+   * @param endpoints - Endpoints for this request, possibly with pre-resolved URLs
+   * @param batchSignal - Cancels the request together with the rest of its batch
+   */
+  private async runZkFetch(
+    url: string,
+    rawOptions: Options | undefined,
+    rawSecretOptions: secretOptions | undefined,
+    legacyPolicy: Partial<RetryPolicy>,
+    endpoints: ReclaimEndpoints,
+    batchSignal?: AbortSignal
+  ): Promise<Proof> {
+    validateURL(url, "zkFetch");
+    if (rawOptions !== undefined) {
+      assertCorrectnessOfOptions(rawOptions);
+    }
+
+    const retryPolicy = resolveRetryPolicy(
+      this.retryPolicy,
+      legacyPolicy,
+      rawOptions?.retryPolicy
+    );
+
+    const extraction = rawSecretOptions?.extraction;
+    const { options, secretOptions } = this.prepareRequest(rawOptions, rawSecretOptions);
+    this.assertRequestAllowed(url, options, secretOptions);
+    await this.assertNotRevoked();
+
     // Determine which private key to use
     let privateKey: string;
     if (this.applicationSecret) {
       privateKey = this.applicationSecret;
-    } else if (this.ownerKey) {
+    } else if (this.ownerKeyStore) {
       // Use the client-generated owner key
-      privateKey = this.ownerKey;
+      privateKey = await this.getOwnerKey();
     } else {
       throw new InvalidParamError('No authentication method available');
     }
 
-    await sendLogs({
-      sessionId: this.sessionId,
-      logType: LogType.VERIFICATION_STARTED,
-      applicationId: this.applicationId,
+    await this.log(LogType.VERIFICATION_STARTED);
+
+    const signal = linkSignals(options?.signal, batchSignal);
+    const deadline = createRequestDeadline(signal.signal, options?.timeoutMs);
+    let proof: Proof;
+    try {
+      proof = await this.runExecutionMode(resolveExecutionMode(options), deadline.signal, (path, pathSignal) => {
+        if (path === 'attestor') {
+          return this.zkFetchWithAttestor(url, privateKey, retryPolicy, endpoints, options, secretOptions, pathSignal);
+        }
+        return this.zkFetchWithTee(url, retryPolicy, endpoints, options, secretOptions, { ...deadline, signal: pathSignal });
+      });
+      // logged for the proof that is returned, not by a cancelled path that finished anyway
+      await this.log(LogType.PROOF_GENERATED);
+    } catch (error) {
+      // logged once the execution mode has failed, not for every failed or cancelled path
+      await this.log(LogType.ERROR);
+      logger.error(error);
+      throw error;
+    } finally {
+      deadline.dispose();
+      signal.dispose();
+    }
+
+    if (extraction) {
+      const extractedProof: ExtractedProof<ExtractionSchema> = {
+        ...proof,
+        extracted: parseExtractedValues(extraction, proof.extractedParameterValues),
+      };
+      return extractedProof;
+    }
+    return proof;
+  }
+
+  /**
+   * Previews a request without creating a proof
+   *
+   * Performs the request locally and applies the same responseMatches and
+   * responseRedactions rules the attestor uses, reporting which matches pass,
+   * the extracted parameters and the exact byte ranges that would be revealed.
+   * @param url - URL to fetch
+   * @param options - Public request options
+   * @param secretOptions - Private request options
+   */
+  async previewZkFetch(
+    url: string,
+    rawOptions?: Options,
+    rawSecretOptions?: secretOptions
+  ): Promise<ZkFetchPreview> {
+    validateURL(url, "previewZkFetch");
+    if (rawOptions !== undefined) {
+      assertCorrectnessOfOptions(rawOptions);
+    }
+    const { options, secretOptions } = this.prepareRequest(rawOptions, rawSecretOptions);
+    this.assertRequestAllowed(url, options, secretOptions);
+    await this.assertNotRevoked();
+    const deadline = createRequestDeadline(options?.signal, options?.timeoutMs);
+    try {
+      return await previewRequest(url, options, secretOptions, deadline.signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Exports the owner key of a signature-mode client, e.g. to move it to another device
+   * @param passphrase - When given, returns an encrypted JSON keystore instead of the raw key
+   * @returns The 0x-prefixed private key or the encrypted keystore JSON
+   */
+  async exportOwnerKey(passphrase?: string): Promise<string> {
+    if (!this.ownerKeyStore) {
+      throw new InvalidParamError('Owner keys are only used with a signature');
+    }
+    const ownerKey = await this.getOwnerKey();
+    if (passphrase === undefined) {
+      return ownerKey;
+    }
+    if (!passphrase || typeof passphrase !== 'string') {
+      throw new InvalidParamError('passphrase must be a non-empty string');
+    }
+    return new ethers.Wallet(ownerKey).encrypt(passphrase);
+  }
+
+  /**
+   * Replaces the owner key of a signature-mode client and saves it to the owner key store
+   * @param key - A 0x-prefixed private key or an encrypted JSON keystore
+   * @param passphrase - Required when `key` is an encrypted keystore
+   */
+  async importOwnerKey(key: string, passphrase?: string): Promise<void> {
+    if (!this.ownerKeyStore) {
+      throw new InvalidParamError('Owner keys are only used with a signature');
+    }
+    if (!key || typeof key !== 'string') {
+      throw new InvalidParamError('key must be a non-empty string');
+    }
+
+    let ownerKey: string;
+    if (key.trim().startsWith('{')) {
+      if (!passphrase) {
+        throw new InvalidParamError('passphrase is required to import an encrypted owner key');
+      }
+      try {
+        ownerKey = (await ethers.Wallet.fromEncryptedJson(key, passphrase)).privateKey;
+      } catch {
+        throw new InvalidParamError('Unable to decrypt owner key: wrong passphrase or invalid keystore');
+      }
+    } else {
+      ownerKey = normalizeOwnerKey(key);
+    }
+
+    await this.ownerKeyStore.set(this.applicationId, ownerKey);
+    this.ownerKeyPromise = Promise.resolve(ownerKey);
+    this.ownerKey = ownerKey;
+  }
+
+  /**
+   * Replaces the owner key of a signature-mode client with a new random key
+   *
+   * Keep the returned link: it proves that proofs owned by the previous key and
+   * proofs owned by the new one belong to the same user (see `verifyOwnerKeyChain`).
+   * @returns Link signed by both the previous and the new owner key
+   */
+  async rotateOwnerKey(): Promise<OwnerKeyLink> {
+    if (!this.ownerKeyStore) {
+      throw new InvalidParamError('Owner keys are only used with a signature');
+    }
+    const previousKey = await this.getOwnerKey();
+    const newKey = ethers.Wallet.createRandom().privateKey;
+    const link = await createOwnerKeyLink(this.applicationId, previousKey, newKey);
+
+    await this.ownerKeyStore.set(this.applicationId, newKey);
+    this.ownerKeyPromise = Promise.resolve(newKey);
+    this.ownerKey = newKey;
+    logger.info(`Rotated owner key from ${link.previousOwner} to ${link.newOwner}`);
+    return link;
+  }
+
+  /**
+   * Loads the owner key once per client, creating it on first use
+   */
+  private getOwnerKey(): Promise<string> {
+    if (!this.ownerKeyPromise) {
+      const store = this.ownerKeyStore || getDefaultOwnerKeyStore();
+      this.ownerKeyPromise = getOrCreateOwnerKey(this.applicationId, store).then(ownerKey => {
+        this.ownerKey = ownerKey;
+        return ownerKey;
+      });
+      // let a later call retry after a store failure
+      this.ownerKeyPromise.catch(() => {
+        this.ownerKeyPromise = undefined;
+      });
+    }
+    return this.ownerKeyPromise;
+  }
+
+  /**
+   * Serializes a structured body and compiles the extraction schema
+   */
+  private prepareRequest(
+    options?: Options,
+    secretOptions?: secretOptions
+  ): { options?: EncodedOptions; secretOptions?: secretOptions } {
+    if (secretOptions?.extraction) {
+      secretOptions = applyExtractionSchema(secretOptions);
+    }
+    return encodeRequestBody(options, secretOptions);
+  }
+
+  /**
+   * In signature mode, verifies the token is still valid and allows the URL,
+   * method, body size and context of the request
+   */
+  private assertRequestAllowed(url: string, options?: EncodedOptions, secretOptions?: secretOptions): void {
+    const signatureData = this.signatureData;
+    if (!signatureData) {
+      return;
+    }
+    if (signatureData.expiresAt <= Math.floor(Date.now() / 1000)) {
+      throw new SignatureExpiredError('Signature has expired');
+    }
+    if (!isUrlAllowed(url, signatureData.allowedUrls)) {
+      throw new UrlNotAllowedError(
+        `URL "${url}" is not allowed by the signature. Allowed patterns: ${signatureData.allowedUrls.join(', ')}`
+      );
+    }
+
+    const method = (options?.method || HttpMethod.GET).toUpperCase();
+    const allowedMethods = getAllowedMethods(url, signatureData);
+    if (allowedMethods && !allowedMethods.includes(method)) {
+      throw new RequestNotAllowedError(
+        `Method ${method} is not allowed by the signature for "${url}". Allowed methods: ${allowedMethods.join(', ')}`
+      );
+    }
+
+    if (signatureData.maxBodyBytes !== undefined) {
+      const bodyBytes = getBodyByteLength(options?.body, {
+        ...options?.paramValues,
+        ...secretOptions?.paramValues,
+      });
+      if (bodyBytes > signatureData.maxBodyBytes) {
+        throw new RequestNotAllowedError(
+          `Request body is ${bodyBytes} bytes, the signature allows at most ${signatureData.maxBodyBytes}`
+        );
+      }
+    }
+
+    if (
+      signatureData.contextAddress !== undefined &&
+      options?.context?.contextAddress?.toLowerCase() !== signatureData.contextAddress.toLowerCase()
+    ) {
+      throw new RequestNotAllowedError(
+        `The signature requires context.contextAddress to be ${signatureData.contextAddress}`
+      );
+    }
+  }
+
+  /**
+   * In signature mode, asks the revocation provider whether the token, or a
+   * token it was delegated from, has been revoked
+   */
+  private async assertNotRevoked(): Promise<void> {
+    if (this.sessionSignature && this.revocationProvider) {
+      await checkSessionSignature(this.sessionSignature, { revocationProvider: this.revocationProvider });
+    }
+  }
+
+  /**
+   * Execute zkFetch on the attestor, or on every attestor of
+   * `endpoints.attestorUrls`
+   */
+  private async zkFetchWithAttestor(
+    url: string,
+    privateKey: string,
+    retryPolicy: RetryPolicy,
+    endpoints: ReclaimEndpoints,
+    options?: EncodedOptions,
+    secretOptions?: secretOptions,
+    signal?: AbortSignal
+  ) {
+    // Configured attestors, or the one from feature flags
+    const attestorUrls = await raceWithSignal(getAttestorUrls(endpoints), signal);
+    // endpoints may have changed since the constructor checked the quorum
+    if (this.attestorQuorum !== undefined && this.attestorQuorum > attestorUrls.length) {
+      throw new InvalidParamError(
+        `attestorQuorum is ${this.attestorQuorum}, but only ${attestorUrls.length} attestors are configured`
+      );
+    }
+
+    return attestorUrls.length === 1
+      ? this.createAttestorProof(attestorUrls[0], url, privateKey, retryPolicy, options, secretOptions, signal)
+      : this.createQuorumProof(attestorUrls, url, privateKey, retryPolicy, options, secretOptions, signal);
+  }
+
+  /**
+   * Requests the claim from every attestor and aggregates the signatures of
+   * the most common claim; attestors that see a different response sign a
+   * different claim. Attestors are counted by witness address, so two URLs
+   * of the same attestor count once.
+   * @throws AttestorQuorumError if fewer than attestorQuorum attestors signed it
+   */
+  private async createQuorumProof(
+    attestorUrls: string[],
+    url: string,
+    privateKey: string,
+    retryPolicy: RetryPolicy,
+    options?: EncodedOptions,
+    secretOptions?: secretOptions,
+    signal?: AbortSignal
+  ): Promise<Proof> {
+    const quorum = this.attestorQuorum ?? attestorUrls.length;
+    const results = await Promise.allSettled(attestorUrls.map(attestorUrl =>
+      this.createAttestorProof(attestorUrl, url, privateKey, retryPolicy, options, secretOptions, signal)
+    ));
+    throwIfAborted(signal);
+
+    // claim identifier -> witness address -> its proof
+    const claims = new Map<string, Map<string, Proof>>();
+    const failures: { [attestorUrl: string]: unknown } = {};
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures[attestorUrls[index]] = result.reason;
+        return;
+      }
+      const proofs = claims.get(result.value.identifier) || new Map<string, Proof>();
+      const witness = normalizeWitnessId(result.value.witnesses[0]?.id);
+      if (!proofs.has(witness)) {
+        proofs.set(witness, result.value);
+      }
+      claims.set(result.value.identifier, proofs);
     });
 
-    // Use TEE execution path if TEE mode is enabled for this request
-    if (options?.useTee) {
-      // Lazy-initialize TEE SDK if not already initialized
-      if (!this.teeSDK) {
-        this.teeSDK = new ReclaimSDK();
-        this.teeSDK.init();
+    const errors = Object.values(failures);
+    // the request itself failed, report it like a single attestor would
+    if (errors.length === attestorUrls.length) {
+      throw errors[0];
+    }
+
+    // ties go to the claim of the attestor listed first
+    let agreed: Proof[] = [];
+    for (const proofs of claims.values()) {
+      if (proofs.size > agreed.length) {
+        agreed = [...proofs.values()];
       }
-      return await this.zkFetchWithTee(url, options, secretOptions, retries, retryInterval);
     }
+    if (agreed.length < quorum) {
+      throw new AttestorQuorumError(
+        `${agreed.length} of ${attestorUrls.length} attestors signed the same claim, ${quorum} required`,
+        {
+          agreeing: agreed.length,
+          quorum,
+          failures,
+          // differing claims would differ again, unavailable attestors may recover
+          retryable: errors.some(error => error instanceof ZkFetchError && error.retryable),
+          cause: errors[0],
+        }
+      );
+    }
+    return aggregateProofs(agreed);
+  }
 
-    // Fetch attestor URL from feature flags
-    const attestorUrl = await getAttestorUrl();
+  /**
+   * Creates the claim on a single attestor
+   */
+  private async createAttestorProof(
+    attestorUrl: string,
+    url: string,
+    privateKey: string,
+    retryPolicy: RetryPolicy,
+    options?: EncodedOptions,
+    secretOptions?: secretOptions,
+    signal?: AbortSignal
+  ): Promise<Proof> {
+    const method = options?.method || HttpMethod.GET;
+    if (!isAttestorMethod(method)) {
+      throw new InvalidMethodError(`Method ${method} is not supported by the attestor`);
+    }
 
-    let attempt = 0;
-    while (attempt < retries) {
+    return retryWithPolicy(async () => {
+      let claim: Awaited<ReturnType<typeof createClaimOnAttestor>>;
       try {
-        const claim = await createClaimOnAttestor({
+        claim = await raceWithSignal(createClaimOnAttestor({
           name: "http",
           params: {
-            method: (options?.method as HttpMethod) || HttpMethod.GET,
+            method,
             url: url,
             responseMatches: secretOptions?.responseMatches || [
               {
@@ -175,34 +723,115 @@ export class ReclaimClient {
           client: {
             url: attestorUrl,
           },
+          // stop the session at its next step once cancelled
+          onStep: () => throwIfAborted(signal),
+        }), signal);
+      } catch (error) {
+        throw toZkFetchError(error);
+      }
+
+      if (claim.error) {
+        throw toZkFetchError({
+          ...claim.error,
+          message: `Failed to create claim on attestor: ${claim.error.message}`,
         });
+      }
 
-        if (claim.error) {
-          throw new Error(
-            `Failed to create claim on attestor: ${claim.error.message}`
-          );
-        }
+      return await transformProof(claim, attestorUrl);
+    }, retryPolicy, signal);
+  }
 
-        await sendLogs({
-          sessionId: this.sessionId,
-          logType: LogType.PROOF_GENERATED,
-          applicationId: this.applicationId,
-        });
-        return await transformProof(claim);
+  /**
+   * Emit a business log for this session according to the telemetry mode
+   */
+  private async log(logType: LogType): Promise<void> {
+    await emitLog(this.logSink, this.telemetry, {
+      sessionId: this.sessionId,
+      logType,
+      applicationId: this.applicationId,
+    });
+  }
+
+  /**
+   * Runs a request on the TEE and/or the attestor as the execution mode asks
+   * @param runOn - Runs the request on one path until the given signal aborts
+   */
+  private async runExecutionMode(
+    mode: ExecutionMode,
+    signal: AbortSignal,
+    runOn: (path: ExecutionPath, signal: AbortSignal) => Promise<Proof>
+  ): Promise<Proof> {
+    if (mode === 'tee' || mode === 'attestor') {
+      return runOn(mode, signal);
+    }
+
+    if (mode === 'tee-with-fallback') {
+      try {
+        return await runOn('tee', signal);
       } catch (error) {
-        attempt++;
-        if (attempt >= retries) {
-          await sendLogs({
-            sessionId: this.sessionId,
-            logType: LogType.ERROR,
-            applicationId: this.applicationId,
-          });
-          logger.error(error);
+        if (!canFallBackToAttestor(error)) {
           throw error;
         }
-        await new Promise((resolve) => setTimeout(resolve, retryInterval));
+        logger.warn({ err: error }, 'TEE request failed, falling back to the attestor');
+        return runOn('attestor', signal);
       }
     }
+
+    // 'fastest': both paths race, the first proof cancels the other path
+    const paths: ExecutionPath[] = ['tee', 'attestor'];
+    const controllers = paths.map(() => new AbortController());
+    const links = controllers.map(controller => linkSignals(signal, controller.signal));
+    try {
+      return await new Promise<Proof>((resolve, reject) => {
+        const errors: unknown[] = [];
+        let failed = 0;
+        paths.forEach((path, index) => {
+          runOn(path, links[index].signal).then(proof => {
+            controllers.forEach(controller => controller.abort(new AbortError('Another execution path finished first')));
+            resolve(proof);
+          }, error => {
+            errors[index] = error;
+            // the attestor's error is reported once both paths failed
+            if (++failed === paths.length) {
+              reject(errors[paths.indexOf('attestor')]);
+            }
+          });
+        });
+      });
+    } finally {
+      links.forEach(link => link.dispose());
+    }
+  }
+
+  /**
+   * Loads the ZK circuits once, before the first TEE request. With explicit
+   * `teeCircuits`, a circuit that is missing or fails verification rejects
+   * the request; by default it is logged and the request runs without it.
+   */
+  private loadTeeCircuits(teeSDK: ReclaimSDK): Promise<void> {
+    // a custom backend does not use libreclaim
+    if (this.teeCircuits === false || this.teeBackend) {
+      return Promise.resolve();
+    }
+    if (!this.teeCircuitsPromise) {
+      // unverified circuits are never used unless teeCircuits.verify is false
+      this.teeCircuitsPromise = teeSDK.loadCircuits(this.teeCircuits).then(statuses => {
+        const failed = statuses.filter(status => !status.loaded);
+        if (failed.length > 0) {
+          const message = `Could not load circuits: ${failed.map(status => `${status.name} (${status.error})`).join(', ')}`;
+          if (!this.teeCircuits) {
+            logger.warn(message);
+            return;
+          }
+          throw new ClaimCreationError(message, { retryable: false });
+        }
+      }).catch(error => {
+        // a later request tries again
+        this.teeCircuitsPromise = undefined;
+        throw error;
+      });
+    }
+    return this.teeCircuitsPromise;
   }
 
   /**
@@ -210,14 +839,19 @@ export class ReclaimClient {
    */
   private async zkFetchWithTee(
     url: string,
-    options?: Options,
+    retryPolicy: RetryPolicy,
+    endpoints: ReclaimEndpoints,
+    options?: EncodedOptions,
     secretOptions?: secretOptions,
-    retries = 1,
-    retryInterval = 1000
+    deadline?: RequestDeadline
   ) {
+    // Lazy-initialize TEE SDK if not already initialized
     if (!this.teeSDK) {
-      throw new InvalidParamError('TEE SDK not initialized');
+      const teeSDK = new ReclaimSDK(undefined, this.teePoolOptions, this.teeBackend);
+      teeSDK.init();
+      this.teeSDK = teeSDK;
     }
+    await raceWithSignal(this.loadTeeCircuits(this.teeSDK), deadline?.signal);
 
     // Build the request for TEE SDK - format must match TEE service expectations
     const defaultHeaders = {
@@ -249,52 +883,43 @@ export class ReclaimClient {
       },
     };
 
-    const fetchedTeeUrls = await getTeeUrls();
+    const signal = deadline?.signal;
+    const fetchedTeeUrls = await raceWithSignal(getTeeUrls(endpoints), signal);
 
-    // Build TEE config - user-provided URLs take precedence over feature flags
-    const teeConfig = {
-      teek_url: fetchedTeeUrls.teekUrl,
-      teet_url: fetchedTeeUrls.teetUrl,
-      // default 30s timeout
-      timeout_ms: 30000,
-    };
+    const teeSDK = this.teeSDK;
+    return retryWithPolicy(async () => {
+      // Build TEE config - user-provided URLs take precedence over feature flags
+      const teeConfig = {
+        teek_url: fetchedTeeUrls.teekUrl,
+        teet_url: fetchedTeeUrls.teetUrl,
+        // remaining request time, default 30s timeout
+        timeout_ms: deadline?.remainingMs() ?? 30000,
+      };
 
-    let attempt = 0;
-    while (attempt < retries) {
+      let result: Awaited<ReturnType<typeof teeSDK.executeProtocolAsync>>;
       try {
-        const result = await this.teeSDK.executeProtocolAsync(request, teeConfig);
-
-        // Check for errors in TEE result (matching non-TEE path behavior)
-        if (result.claim.error) {
-          throw new Error(
-            `Failed to create claim on TEE: ${result.claim.error}`
-          );
-        }
-
-        await sendLogs({
-          sessionId: this.sessionId,
-          logType: LogType.PROOF_GENERATED,
-          applicationId: this.applicationId,
-        });
-
-        return await transformTeeProof(result, fetchedTeeUrls.teeAttestorUrl);
+        result = await teeSDK.executeProtocolAsync(request, teeConfig, signal);
       } catch (error) {
-        attempt++;
-        if (attempt >= retries) {
-          await sendLogs({
-            sessionId: this.sessionId,
-            logType: LogType.ERROR,
-            applicationId: this.applicationId,
-          });
-          logger.error(error);
-          throw error;
+        const classified = toZkFetchError(error);
+        // libreclaim was given the time left, so its timeout is the request's timeout
+        if (
+          classified instanceof TeeProtocolError &&
+          classified.teeCode === ReclaimError.TIMEOUT &&
+          deadline?.remainingMs() !== undefined
+        ) {
+          throw new TimeoutError(`Request timed out after ${options?.timeoutMs}ms`);
         }
-        await new Promise((resolve) => setTimeout(resolve, retryInterval));
+        throw classified;
+      }
+
+      // Check for errors in TEE result (matching non-TEE path behavior)
+      if (result.claim.error) {
+        throw toZkFetchError(new Error(
+          `Failed to create claim on TEE: ${result.claim.error}`
+        ));
       }
-    }
 
-    // This should never be reached due to the throw in the catch block,
-    // but TypeScript requires an explicit return for all code paths
-    throw new InvalidParamError('TEE execution failed: no attempts were made');
+      return await transformTeeProof(result, fetchedTeeUrls.teeAttestorUrl);
+    }, retryPolicy, signal);
   }
 }
@@ -0,0 +1,150 @@
+import { expect, test, describe, beforeEach } from 'vitest'
+import { ethers } from 'ethers'
+import { createClaimOnAttestor } from './attestor'
+import { ReclaimClient } from '../src/zkfetch'
+import { verifyProof, getClaimIdentifier, createClaimSignData } from '../src/verify'
+import { aggregateProofs } from '../src/utils'
+import { AttestorQuorumError, InvalidParamError, ResponseMatchError } from '../src/errors'
+import { ProofVerificationFailureReason } from '../src/types'
+
+const wallet = ethers.Wallet.createRandom()
+const attestorUrls = ['wss://a.example.org/ws', 'wss://b.example.org/ws', 'wss://c.example.org/ws']
+const attestors = attestorUrls.map(() => ethers.Wallet.createRandom())
+const trustedWitnesses = attestors.map(attestor => attestor.address)
+
+// every attestor signs its own timestamp; `price` stands in for the response it saw
+async function signClaim(index: number, price = '42') {
+  const claim = {
+    provider: 'http',
+    parameters: '{"method":"GET","url":"https://api.example.org/payouts/1"}',
+    owner: wallet.address.toLowerCase(),
+    timestampS: 1700000000 + index,
+    context: JSON.stringify({ extractedParameters: { price } }),
+    epoch: 1,
+  }
+  const identifier = getClaimIdentifier(claim)
+  const signature = await attestors[index].signMessage(createClaimSignData(claim, identifier))
+  return {
+    claim: { ...claim, identifier },
+    signatures: { attestorAddress: attestors[index].address, claimSignature: ethers.utils.arrayify(signature) },
+  }
+}
+
+function createClient(attestorQuorum?: number) {
+  return new ReclaimClient(wallet.address, wallet.privateKey, {
+    telemetry: 'off',
+    retryPolicy: { maxAttempts: 1 },
+    attestorQuorum,
+    endpoints: { attestorUrls },
+  })
+}
+
+function zkFetch(client: ReclaimClient) {
+  return client.zkFetch('https://api.example.org/payouts/1', { method: 'GET' })
+}
+
+function respond(...claims: (Promise<unknown> | Error)[]) {
+  createClaimOnAttestor.mockImplementation(({ client }) => {
+    const claim = claims[attestorUrls.indexOf(client.url)]
+    return claim instanceof Error ? Promise.reject(claim) : claim
+  })
+}
+
+describe('Attestor Quorum', () => {
+  beforeEach(() => {
+    createClaimOnAttestor.mockReset()
+  })
+
+  test('should aggregate the signatures of every attestor', async () => {
+    respond(signClaim(0), signClaim(1), signClaim(2))
+
+    const proof = await zkFetch(createClient())
+    expect(proof.signatures).toHaveLength(3)
+    expect(proof.witnesses.map(witness => [witness.url, witness.timestampS])).toEqual([
+      [attestorUrls[0], 1700000000],
+      [attestorUrls[1], 1700000001],
+      [attestorUrls[2], 1700000002],
+    ])
+    expect(verifyProof(proof, { trustedWitnesses }).isValid).toBe(true)
+    expect(verifyProof(proof, { trustedWitnesses, threshold: 3 }).isValid).toBe(true)
+  })
+
+  test('should accept k of n matching claims', async () => {
+    respond(signClaim(0), new Error('socket hang up'), signClaim(2))
+    await expect(zkFetch(createClient())).rejects.toThrow(AttestorQuorumError)
+
+    const proof = await zkFetch(createClient(2))
+    expect(proof.witnesses.map(witness => witness.url)).toEqual([attestorUrls[0], attestorUrls[2]])
+
+    respond(signClaim(0), signClaim(1, '43'), signClaim(2))
+    const disagreed = await zkFetch(createClient(2))
+    expect(disagreed.extractedParameterValues).toEqual({ price: '42' })
+    expect(disagreed.signatures).toHaveLength(2)
+
+    const error = await zkFetch(createClient(3)).catch(error => error)
+    expect(error).toMatchObject({ code: 'ATTESTOR_QUORUM', agreeing: 2, quorum: 3, retryable: false })
+  })
+
+  test('should count each attestor once, whatever URLs it is reached by', async () => {
+    respond(signClaim(0), signClaim(0), signClaim(2))
+
+    const error = await zkFetch(createClient(3)).catch(error => error)
+    expect(error).toMatchObject({ code: 'ATTESTOR_QUORUM', agreeing: 2, quorum: 3 })
+
+    const proof = await zkFetch(createClient(2))
+    expect(proof.witnesses.map(witness => witness.url)).toEqual([attestorUrls[0], attestorUrls[2]])
+    expect(verifyProof(proof, { trustedWitnesses, threshold: 2 }).isValid).toBe(true)
+  })
+
+  test('should check the quorum against the attestors used for the request', async () => {
+    respond(signClaim(0), signClaim(1), signClaim(2))
+    const client = createClient(3)
+    client.endpoints = { attestorUrls: attestorUrls.slice(0, 2) }
+
+    await expect(zkFetch(client)).rejects.toThrow(InvalidParamError)
+    expect(createClaimOnAttestor).not.toHaveBeenCalled()
+  })
+
+  test('should report failures of the request itself', async () => {
+    respond(new Error('Invalid receipt'), new Error('Invalid receipt'), new Error('Invalid receipt'))
+    await expect(zkFetch(createClient(1))).rejects.toThrow(ResponseMatchError)
+  })
+
+  test('should verify against a threshold', async () => {
+    respond(signClaim(0), signClaim(1), signClaim(2))
+    const proof = await zkFetch(createClient())
+    const twoTrusted = trustedWitnesses.slice(0, 2)
+
+    expect(verifyProof(proof, { trustedWitnesses: twoTrusted }).isValid).toBe(false)
+    expect(verifyProof(proof, { trustedWitnesses: twoTrusted, threshold: 2 }).isValid).toBe(true)
+
+    const result = verifyProof(proof, { trustedWitnesses: twoTrusted, threshold: 3 })
+    expect(result.isValid).toBe(false)
+    expect(result.failures.map(failure => failure.reason)).toEqual([
+      ProofVerificationFailureReason.UNTRUSTED_WITNESS,
+      ProofVerificationFailureReason.THRESHOLD_NOT_MET,
+    ])
+
+    // the same witness signing twice counts once
+    const repeated = aggregateProofs([proof, proof])
+    expect(verifyProof(repeated, { trustedWitnesses, threshold: 4 }).isValid).toBe(false)
+    // a witness timestamp that was not signed invalidates only its signature
+    const tampered = { ...proof, witnesses: proof.witnesses.map((witness, index) => index ? witness : { ...witness, timestampS: 1 }) }
+    expect(verifyProof(tampered, { trustedWitnesses, threshold: 2 }).isValid).toBe(true)
+    expect(verifyProof(tampered, { trustedWitnesses, threshold: 3 }).isValid).toBe(false)
+    expect(() => verifyProof(proof, { trustedWitnesses, threshold: 0 })).toThrow(InvalidParamError)
+  })
+
+  test('should validate the configuration', () => {
+    expect(() => createClient(4)).toThrow(InvalidParamError)
+    expect(() => new ReclaimClient(wallet.address, wallet.privateKey, { attestorQuorum: 2 })).toThrow(InvalidParamError)
+    expect(() => new ReclaimClient(wallet.address, wallet.privateKey, { endpoints: { attestorUrls: [] } })).toThrow(InvalidParamError)
+    expect(() => new ReclaimClient(wallet.address, wallet.privateKey, {
+      endpoints: { attestorUrls: [attestorUrls[0], attestorUrls[0]] },
+    })).toThrow(InvalidParamError)
+    expect(() => new ReclaimClient(wallet.address, wallet.privateKey, {
+      endpoints: { attestorUrl: attestorUrls[0], attestorUrls },
+    })).toThrow(InvalidParamError)
+    expect(() => aggregateProofs([])).toThrow(InvalidParamError)
+  })
+})
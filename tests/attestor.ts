@@ -0,0 +1,44 @@
+import { vi } from 'vitest'
+import { ethers } from 'ethers'
+
+// attestor-core cannot be loaded in tests, so the client talks to this mock;
+// import this helper before anything from ../src
+const { createClaimOnAttestor } = vi.hoisted(() => ({ createClaimOnAttestor: vi.fn() }))
+vi.mock('@reclaimprotocol/attestor-core', () => ({ createClaimOnAttestor }))
+
+import { ReclaimClient } from '../src/zkfetch'
+import { ProviderClaimData, ReclaimClientOptions } from '../src/interfaces'
+
+export { createClaimOnAttestor }
+
+export const ATTESTOR_URL = 'wss://attestor.example.org/ws'
+
+/**
+ * Helper: Build what createClaimOnAttestor resolves with for a claim
+ */
+export const claimResponse = (claim: Partial<ProviderClaimData> = {}) => ({
+  claim: {
+    provider: 'http',
+    parameters: '{}',
+    owner: '0x0000000000000000000000000000000000000001',
+    timestampS: 1700000000,
+    context: '{}',
+    identifier: '0x01',
+    epoch: 1,
+    ...claim,
+  },
+  signatures: { claimSignature: new Uint8Array([1, 2, 3]) },
+})
+
+/**
+ * Helper: Create a client with a random application secret that sends claims
+ * to ATTESTOR_URL and no telemetry
+ */
+export const createClient = (options: ReclaimClientOptions = {}) => {
+  const wallet = ethers.Wallet.createRandom()
+  return new ReclaimClient(wallet.address, wallet.privateKey, {
+    telemetry: 'off',
+    ...options,
+    endpoints: { attestorUrl: ATTESTOR_URL, ...options.endpoints },
+  })
+}
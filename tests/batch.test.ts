@@ -0,0 +1,63 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest'
+import { ATTESTOR_URL, claimResponse, createClaimOnAttestor, createClient } from './attestor'
+import { AbortError, ResponseMatchError } from '../src/errors'
+import { runWithConcurrency } from '../src/utils'
+
+describe('Batch zkFetch', () => {
+  beforeEach(() => {
+    createClaimOnAttestor.mockReset()
+  })
+
+  test('should return per-request results in order', async () => {
+    createClaimOnAttestor.mockImplementation(async ({ params }) => {
+      if (params.url.endsWith('/bad')) {
+        return { error: { code: 'ERROR_INVALID_CLAIM', message: 'Invalid receipt' } }
+      }
+      return claimResponse({ parameters: JSON.stringify({ url: params.url }) })
+    })
+
+    const results = await createClient().zkFetchMany([
+      { url: 'https://api.example.org/a' },
+      { url: 'https://api.example.org/bad' },
+      { url: 'https://api.example.org/c', options: { method: 'POST', body: '{}' } },
+    ])
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled'])
+    expect(results[0].url).toBe('https://api.example.org/a')
+    expect(results[1].status === 'rejected' && results[1].reason).toBeInstanceOf(ResponseMatchError)
+    expect(createClaimOnAttestor.mock.calls.every(([args]) => args.client.url === ATTESTOR_URL)).toBe(true)
+  })
+
+  test('should cancel remaining requests when failFast is set', async () => {
+    createClaimOnAttestor.mockImplementation(async () => {
+      return { error: { code: 'ERROR_INVALID_CLAIM', message: 'Invalid receipt' } }
+    })
+
+    const results = await createClient().zkFetchMany(
+      ['a', 'b', 'c'].map(path => ({ url: `https://api.example.org/${path}` })),
+      { concurrency: 1, failFast: true }
+    )
+
+    expect(createClaimOnAttestor).toHaveBeenCalledTimes(1)
+    expect(results[1].status === 'rejected' && results[1].reason).toBeInstanceOf(AbortError)
+    expect(results[2].status === 'rejected' && results[2].reason).toBeInstanceOf(AbortError)
+  })
+
+  test('should reject an invalid concurrency', async () => {
+    await expect(createClient().zkFetchMany([], { concurrency: 0 })).rejects.toThrow('concurrency must be a positive integer')
+  })
+
+  test('should never exceed the concurrency limit', async () => {
+    let running = 0
+    let peak = 0
+
+    await runWithConcurrency(10, 3, async () => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+    })
+
+    expect(peak).toBe(3)
+  })
+})
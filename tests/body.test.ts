@@ -0,0 +1,102 @@
+import { expect, test, describe } from 'vitest'
+import { encodeBody, encodeRequestBody, secret } from '../src/body'
+import { InvalidParamError } from '../src/errors'
+import { canonicalStringify } from '../src/utils'
+
+describe('Body Encoders', () => {
+  test('should serialize JSON with sorted keys', () => {
+    const encoded = encodeBody({ json: { b: 1, a: { d: [true, null], c: 'x' } } })
+
+    expect(encoded.body).toBe('{"a":{"c":"x","d":[true,null]},"b":1}')
+    expect(encoded.contentType).toBe('application/json')
+  })
+
+  test('should serialize values with toJSON like JSON.stringify', () => {
+    const createdAt = new Date('2024-01-02T03:04:05.000Z')
+
+    expect(canonicalStringify({ createdAt })).toBe('{"createdAt":"2024-01-02T03:04:05.000Z"}')
+    expect(encodeBody({ json: { createdAt, tags: [createdAt] } }).body)
+      .toBe('{"createdAt":"2024-01-02T03:04:05.000Z","tags":["2024-01-02T03:04:05.000Z"]}')
+  })
+
+  test('should escape literal placeholders in public values', () => {
+    const encoded = encodeBody({ json: { '{{key}}': 'a {{b}} {{{c}}', pin: secret('1') } })
+
+    expect(encoded.body).toBe('{"pin":"{{secret_0}}","\\u007b{key}}":"a \\u007b{b}} \\u007b\\u007b{c}}"}')
+    expect(encoded.body.match(/{{([^{}]+)}}/g)).toEqual(['{{secret_0}}'])
+    expect(JSON.parse(encoded.body)).toEqual({ '{{key}}': 'a {{b}} {{{c}}', pin: '{{secret_0}}' })
+    expect(encodeBody({ form: { q: '{{b}}' } }).body).toBe('q=%7B%7Bb%7D%7D')
+  })
+
+  test('should reject multipart values that break out of their part', () => {
+    expect(() => encodeBody({ multipart: { 'a"; filename="x': 'v' } })).toThrow(InvalidParamError)
+    expect(() => encodeBody({ multipart: { file: { content: 'v', filename: 'a.txt\r\nX-Injected: 1' } } })).toThrow(InvalidParamError)
+    expect(() => encodeBody({ multipart: { file: { content: 'v', contentType: 'text/plain\r\n' } } })).toThrow(InvalidParamError)
+    expect(() => encodeBody({ multipart: { note: 'see {{token}}' } })).toThrow(InvalidParamError)
+  })
+
+  test('should move secrets into param values', () => {
+    const encoded = encodeBody({ json: { user: 'alice', password: secret('p"ss\\'), pin: secret('1234', 'pin') } })
+
+    expect(encoded.body).toBe('{"password":"{{secret_0}}","pin":"{{pin}}","user":"alice"}')
+    expect(encoded.paramValues).toEqual({ secret_0: 'p\\"ss\\\\', pin: '1234' })
+    expect(JSON.parse(encoded.body.replace('{{secret_0}}', encoded.paramValues.secret_0)).password).toBe('p"ss\\')
+  })
+
+  test('should serialize form bodies', () => {
+    const encoded = encodeBody({ form: { q: 'a b&c', page: 2, token: secret('x y') } })
+
+    expect(encoded.body).toBe('q=a+b%26c&page=2&token={{secret_0}}')
+    expect(encoded.paramValues).toEqual({ secret_0: 'x+y' })
+    expect(encoded.contentType).toBe('application/x-www-form-urlencoded')
+  })
+
+  test('should serialize multipart bodies with a deterministic boundary', () => {
+    const body = {
+      multipart: {
+        name: 'report',
+        file: { content: secret('hidden'), filename: 'a.txt', contentType: 'text/plain' },
+      },
+    }
+    const first = encodeBody(body)
+    const second = encodeBody(body)
+    const boundary = first.contentType.split('boundary=')[1]
+
+    expect(second.body).toBe(first.body)
+    expect(first.body).toBe(
+      `--${boundary}\r\nContent-Disposition: form-data; name="name"\r\n\r\nreport\r\n` +
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\nContent-Type: text/plain\r\n\r\n{{secret_0}}\r\n` +
+      `--${boundary}--\r\n`
+    )
+    expect(first.paramValues).toEqual({ secret_0: 'hidden' })
+  })
+
+  test('should set Content-Type and merge secret params', () => {
+    const { options, secretOptions } = encodeRequestBody(
+      { method: 'POST', body: { json: { key: secret('k') } }, paramValues: { secret_0: 'public' } },
+      { paramValues: { other: '1' } }
+    )
+
+    expect(options?.headers).toEqual({ 'Content-Type': 'application/json' })
+    expect(options?.body).toBe('{"key":"{{secret_1}}"}')
+    expect(secretOptions?.paramValues).toEqual({ other: '1', secret_1: 'k' })
+  })
+
+  test('should keep an explicit Content-Type and raw string bodies', () => {
+    const { options } = encodeRequestBody(
+      { method: 'POST', body: { json: {} } },
+      { headers: { 'content-type': 'application/vnd.api+json' } }
+    )
+    expect(options?.headers).toEqual({})
+
+    const raw = { method: 'POST', body: 'raw' }
+    expect(encodeRequestBody(raw).options).toBe(raw)
+  })
+
+  test('should reject duplicate or invalid secret names', () => {
+    expect(() => encodeBody({ form: { a: secret('1', 'x'), b: secret('2', 'x') } })).toThrow(InvalidParamError)
+    expect(() => secret('1', 'not valid')).toThrow(InvalidParamError)
+    // @ts-expect-error unsupported body kind
+    expect(() => encodeBody({ xml: '<a/>' })).toThrow(InvalidParamError)
+  })
+})
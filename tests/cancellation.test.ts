@@ -0,0 +1,77 @@
+import { expect, test, describe } from 'vitest'
+import { createClaimOnAttestor, createClient } from './attestor'
+import { createRequestDeadline, raceWithSignal, sleep, assertCorrectnessOfOptions } from '../src/utils'
+import { AbortError, TimeoutError } from '../src/errors'
+
+describe('Request Cancellation', () => {
+  test('should reject with TimeoutError once the timeout elapses', async () => {
+    const deadline = createRequestDeadline(undefined, 20)
+    const pending = new Promise(() => {})
+
+    await expect(raceWithSignal(pending, deadline.signal)).rejects.toBeInstanceOf(TimeoutError)
+    expect(deadline.remainingMs()).toBe(0)
+    deadline.dispose()
+  })
+
+  test('should reject with AbortError when the caller aborts', async () => {
+    const controller = new AbortController()
+    const deadline = createRequestDeadline(controller.signal, 10000)
+    const waiting = sleep(10000, deadline.signal)
+    controller.abort()
+
+    await expect(waiting).rejects.toBeInstanceOf(AbortError)
+    deadline.dispose()
+  })
+
+  test('should reject immediately for an already aborted signal', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const deadline = createRequestDeadline(controller.signal)
+
+    await expect(sleep(10, deadline.signal)).rejects.toBeInstanceOf(AbortError)
+    deadline.dispose()
+  })
+
+  test('should settle normally without a signal or timeout', async () => {
+    const deadline = createRequestDeadline()
+
+    await expect(raceWithSignal(Promise.resolve('ok'), deadline.signal)).resolves.toBe('ok')
+    expect(deadline.remainingMs()).toBeUndefined()
+    deadline.dispose()
+  })
+
+  test('should stop the attestor session, not only the returned promise', async () => {
+    const client = createClient()
+    // a session that reports a step every 5ms until onStep throws
+    let sessionError: unknown
+    let steps = 0
+    createClaimOnAttestor.mockImplementation(async ({ onStep }) => {
+      try {
+        for (;;) {
+          onStep({ name: 'connecting' })
+          steps++
+          await sleep(5)
+        }
+      } catch (error) {
+        sessionError = error
+        throw error
+      }
+    })
+
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 20)
+    await expect(client.zkFetch('https://api.example.org/items/1', { method: 'GET', signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError)
+
+    await sleep(20)
+    expect(sessionError).toBeInstanceOf(AbortError)
+    const stoppedAt = steps
+    await sleep(20)
+    expect(steps).toBe(stoppedAt)
+  })
+
+  test('should validate timeoutMs', () => {
+    expect(() => assertCorrectnessOfOptions({ method: 'GET', timeoutMs: 0 })).toThrow('timeoutMs must be a positive number')
+    expect(() => assertCorrectnessOfOptions({ method: 'GET', timeoutMs: 5000 })).not.toThrow()
+  })
+})
@@ -0,0 +1,132 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { AlgorithmID } from '../src/interfaces'
+import { InvalidParamError } from '../src/errors'
+
+const { initAlgorithm } = vi.hoisted(() => ({ initAlgorithm: vi.fn() }))
+vi.mock('../src/bindings', () => ({ loadLibrary: vi.fn(), initAlgorithm }))
+
+import { ReclaimSDK, DEFAULT_CIRCUITS, DEFAULT_CIRCUIT_CHECKSUM_FILE } from '../src/tee'
+import { TeeWorkerCircuit } from '../src/tee-pool'
+
+let dir: string
+
+function sha256(file: string) {
+  return createHash('sha256').update(fs.readFileSync(path.join(dir, file))).digest('hex')
+}
+
+describe('Circuit Loading', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuits-'))
+    for (const circuit of DEFAULT_CIRCUITS) {
+      for (const file of [circuit.pkFile, circuit.r1csFile]) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true })
+        fs.writeFileSync(path.join(dir, file), `${circuit.name}:${file}`)
+      }
+    }
+    initAlgorithm.mockReset().mockReturnValue(true)
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should load and verify every algorithm', async () => {
+    const checksums = DEFAULT_CIRCUITS.flatMap(circuit => [circuit.pkFile, circuit.r1csFile])
+      .map(file => `${sha256(file)}  ./${file}`)
+    fs.writeFileSync(path.join(dir, DEFAULT_CIRCUIT_CHECKSUM_FILE), ['# reclaimprotocol/zk-symmetric-crypto@abc', ...checksums].join('\n'))
+    const sdk = new ReclaimSDK()
+
+    // the checksum file written by download:circuits is used by default
+    const statuses = await sdk.loadCircuits({ resourcesDir: dir })
+
+    expect(statuses.map(status => [status.algorithmId, status.loaded, status.verified])).toEqual([
+      [AlgorithmID.CHACHA20_OPRF, true, true],
+      [AlgorithmID.AES_128_OPRF, true, true],
+      [AlgorithmID.AES_256_OPRF, true, true],
+    ])
+    const [algorithmId, provingKey] = initAlgorithm.mock.calls[0]
+    expect(algorithmId).toBe(AlgorithmID.CHACHA20_OPRF)
+    expect(provingKey.toString()).toBe('chacha20:snarkjs/chacha20/circuit_final.zkey')
+  })
+
+  test('should refuse files that do not match their digest', async () => {
+    const sdk = new ReclaimSDK()
+    const [status] = await sdk.loadCircuits({
+      resourcesDir: dir,
+      algorithms: [AlgorithmID.AES_128_OPRF],
+      hashes: { 'snarkjs/aes-128-ctr/circuit.r1cs': '00'.repeat(32) },
+    })
+
+    expect(status).toMatchObject({ loaded: false, verified: false, error: expect.stringMatching(/circuit\.r1cs/) })
+    expect(initAlgorithm).not.toHaveBeenCalled()
+  })
+
+  test('should refuse circuits without a digest unless verification is off', async () => {
+    fs.rmSync(path.join(dir, 'snarkjs/aes-256-ctr'), { recursive: true })
+
+    const statuses = await new ReclaimSDK().loadCircuits({ resourcesDir: dir })
+    expect(statuses.map(status => status.loaded)).toEqual([false, false, false])
+    expect(statuses[0].error).toMatch(/No expected SHA-256 digest/)
+    expect(initAlgorithm).not.toHaveBeenCalled()
+
+    const unverified = await new ReclaimSDK().loadCircuits({ resourcesDir: dir, verify: false })
+    expect(unverified.map(status => [status.loaded, status.verified])).toEqual([[true, false], [true, false], [false, false]])
+    expect(unverified[2].error).toMatch(/ENOENT/)
+  })
+
+  test('should report missing resources without throwing', async () => {
+    const sdk = new ReclaimSDK()
+    const statuses = await sdk.loadCircuits({ resourcesDir: path.join(dir, 'missing') })
+
+    expect(statuses.map(status => status.loaded)).toEqual([false, false, false])
+    expect(statuses[0].error).toMatch(/Circuit resources not found at/)
+    expect(sdk.getCircuitStatus()).toEqual(statuses)
+    expect(initAlgorithm).not.toHaveBeenCalled()
+  })
+
+  test('should pass the loaded circuits to every worker', async () => {
+    // replies with the circuits the pool sent along with the execution
+    const workerPath = path.join(dir, 'worker.js')
+    fs.writeFileSync(workerPath, `
+      const { parentPort } = require('worker_threads')
+      parentPort.on('message', ({ id, circuits }) => {
+        const claim = { identifier: '', owner: '', provider: 'http', parameters: JSON.stringify(circuits), context: '', timestamp_s: 0, epoch: 0 }
+        parentPort.postMessage({ id, result: { claim, signatures: [] } })
+      })
+    `)
+    const sdk = new ReclaimSDK(undefined, { size: 2, workerPath })
+    const execute = async (): Promise<TeeWorkerCircuit[]> => {
+      const { claim } = await sdk.executeProtocolAsync({ name: 'http', params: {} })
+      return JSON.parse(claim.parameters)
+    }
+
+    await sdk.loadCircuits({ resourcesDir: dir, algorithms: [AlgorithmID.CHACHA20_OPRF], verify: false })
+    const [first, second] = await Promise.all([execute(), execute()])
+    expect(first).toEqual([{
+      algorithmId: AlgorithmID.CHACHA20_OPRF,
+      pkPath: path.join(dir, 'snarkjs/chacha20/circuit_final.zkey'),
+      r1csPath: path.join(dir, 'snarkjs/chacha20/circuit.r1cs'),
+    }])
+    expect(second).toEqual(first)
+
+    // circuits loaded once the workers run are sent with the next execution
+    await sdk.loadCircuits({ resourcesDir: dir, algorithms: [AlgorithmID.AES_128_OPRF], verify: false })
+    expect((await execute()).map(circuit => circuit.algorithmId)).toEqual([AlgorithmID.CHACHA20_OPRF, AlgorithmID.AES_128_OPRF])
+    await sdk.close()
+  })
+
+  test('should only load each algorithm once', async () => {
+    const sdk = new ReclaimSDK()
+    await sdk.loadCircuits({ resourcesDir: dir, algorithms: [AlgorithmID.CHACHA20_OPRF], verify: false })
+    await sdk.loadCircuits({ resourcesDir: dir, verify: false })
+
+    expect(initAlgorithm).toHaveBeenCalledTimes(3)
+    expect(sdk.getCircuitStatus()).toHaveLength(3)
+    // @ts-expect-error unknown algorithm
+    await expect(sdk.loadCircuits({ resourcesDir: dir, algorithms: [99] })).rejects.toThrow(InvalidParamError)
+  })
+})
@@ -0,0 +1,147 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { checkSessionSignature, deriveSessionSignature, generateSessionSignature, verifySessionSignature } from '../src/signature'
+import { createRevocationList } from '../src/revocation'
+import { isUrlPatternWithin } from '../src/url-pattern'
+import { mergeDelegatedScope } from '../src/delegation'
+import { getAllowedMethods } from '../src/utils'
+import { InvalidParamError, SignatureRevokedError } from '../src/errors'
+import { SignatureConfig } from '../src/interfaces'
+import { MAX_DELEGATION_DEPTH } from '../src/constants'
+
+const wallet = ethers.Wallet.createRandom()
+const gateway = ethers.Wallet.createRandom()
+
+function createToken(config: Partial<SignatureConfig> = {}) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls: ['https://api.example.org/*'],
+    allowedMethods: ['GET', 'POST'],
+    delegateAddress: gateway.address,
+    telemetry: 'off',
+    ...config,
+  })
+}
+
+describe('Delegated Session Signatures', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should derive a narrower token verified back to the application', async () => {
+    const parent = await createToken()
+    const parentData = verifySessionSignature(parent)
+    const child = await deriveSessionSignature(parent, gateway.privateKey, {
+      allowedUrls: ['https://api.example.org/tenants/42/*'],
+      allowedMethods: ['GET'],
+      expiresAt: parentData.expiresAt - 60,
+    })
+    const data = verifySessionSignature(child)
+
+    expect(data.applicationId).toBe(wallet.address)
+    expect(data.allowedUrls).toEqual(['https://api.example.org/tenants/42/*'])
+    expect(data.allowedMethods).toEqual(['GET'])
+    expect(data.expiresAt).toBe(parentData.expiresAt - 60)
+    expect(data.parent).toBe(parent)
+  })
+
+  test('should reject scopes broader than the parent', async () => {
+    const parent = await createToken()
+    const { expiresAt } = verifySessionSignature(parent)
+    const derive = (scope: object) => deriveSessionSignature(parent, gateway.privateKey, {
+      allowedUrls: ['https://api.example.org/a'],
+      ...scope,
+    })
+
+    await expect(derive({ allowedUrls: ['https://other.org/*'] })).rejects.toThrow(InvalidParamError)
+    await expect(derive({ allowedUrls: [] })).rejects.toThrow(InvalidParamError)
+    await expect(derive({ allowedMethods: ['DELETE'] })).rejects.toThrow(InvalidParamError)
+    await expect(derive({ expiresAt: expiresAt + 60 })).rejects.toThrow(InvalidParamError)
+    await expect(deriveSessionSignature(parent, ethers.Wallet.createRandom().privateKey, { allowedUrls: [] }))
+      .rejects.toThrow(InvalidParamError)
+    await expect(deriveSessionSignature(await createToken({ delegateAddress: undefined }), gateway.privateKey, {
+      allowedUrls: [],
+    })).rejects.toThrow(InvalidParamError)
+  })
+
+  test('should not widen per-pattern methods of the parent', async () => {
+    const parent = await createToken({
+      allowedUrls: ['https://api.example.org/*', 'https://api.example.org/x'],
+      allowedMethods: undefined,
+      methodsByPattern: { 'https://api.example.org/x': ['GET'] },
+    })
+    const derive = (allowedUrls: string[]) => deriveSessionSignature(parent, gateway.privateKey, {
+      allowedUrls,
+      allowedMethods: ['POST'],
+    })
+
+    await expect(derive(['https://api.example.org/*'])).rejects.toThrow(InvalidParamError)
+    await expect(derive(['https://api.example.org/x'])).rejects.toThrow(InvalidParamError)
+    const child = verifySessionSignature(await derive(['https://api.example.org/y']))
+    expect(getAllowedMethods('https://api.example.org/y', child)).toEqual(['POST'])
+
+    // an entry the child's methods empty out denies the pattern
+    const merged = mergeDelegatedScope(verifySessionSignature(parent), {
+      applicationId: wallet.address,
+      allowedUrls: ['https://api.example.org/*'],
+      expiresAt: child.expiresAt,
+      allowedMethods: ['POST'],
+    })
+    expect(merged.methodsByPattern).toEqual({ 'https://api.example.org/x': [] })
+    expect(getAllowedMethods('https://api.example.org/x', merged)).toEqual([])
+  })
+
+  test('should detect a tampered child', async () => {
+    const child = await deriveSessionSignature(await createToken(), gateway.privateKey, {
+      allowedUrls: ['https://api.example.org/a'],
+    })
+    const [encoded, sig] = child.split('.')
+    const payload = JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8'))
+    const tampered = Buffer.from(JSON.stringify({ ...payload, allowedUrls: ['https://api.example.org/*'] })).toString('base64')
+
+    expect(() => verifySessionSignature(`${tampered}.${sig}`)).toThrow(InvalidParamError)
+  })
+
+  test('should limit the chain depth and check revocation at every level', async () => {
+    const delegates = Array.from({ length: MAX_DELEGATION_DEPTH + 1 }, () => ethers.Wallet.createRandom())
+    let token = await createToken({ delegateAddress: delegates[0].address })
+    const tokens = [token]
+    for (let i = 0; i < MAX_DELEGATION_DEPTH; i++) {
+      token = await deriveSessionSignature(token, delegates[i].privateKey, {
+        allowedUrls: ['https://api.example.org/*'],
+        delegateAddress: delegates[i + 1].address,
+      })
+      tokens.push(token)
+    }
+
+    await expect(deriveSessionSignature(token, delegates[MAX_DELEGATION_DEPTH].privateKey, {
+      allowedUrls: ['https://api.example.org/*'],
+    })).rejects.toThrow(/limited/)
+
+    const revocationList = await createRevocationList({
+      applicationId: wallet.address,
+      applicationSecret: wallet.privateKey,
+      revokedTokenIds: [verifySessionSignature(tokens[1]).tokenId!],
+    })
+    expect(() => verifySessionSignature(token, { revocationList })).toThrow(SignatureRevokedError)
+    await expect(checkSessionSignature(token, { revocationProvider: { getRevocationList: async () => revocationList } }))
+      .rejects.toThrow(SignatureRevokedError)
+  })
+
+  test('should only accept URL patterns within the parent patterns', () => {
+    const parent = ['https://api.example.org/v1/*', '^https://regex\\.org/\\d+$']
+
+    expect(isUrlPatternWithin('https://api.example.org/v1/users/*', parent)).toBe(true)
+    expect(isUrlPatternWithin('https://api.example.org/v1/users/1', parent)).toBe(true)
+    expect(isUrlPatternWithin('https://api.example.org/v2/*', parent)).toBe(false)
+    expect(isUrlPatternWithin('https://api.example.org.evil.com/v1/*', parent)).toBe(false)
+    expect(isUrlPatternWithin('^https://regex\\.org/\\d+$', parent)).toBe(true)
+    expect(isUrlPatternWithin('^https://regex\\.org/1$', parent)).toBe(false)
+    expect(isUrlPatternWithin('https://anything.org/*', [])).toBe(true)
+  })
+})
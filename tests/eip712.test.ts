@@ -0,0 +1,98 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import {
+  generateSessionSignature,
+  getSessionSignatureTypedData,
+  verifySessionSignature,
+} from '../src/signature'
+import { InvalidParamError } from '../src/errors'
+import { SignatureConfig } from '../src/interfaces'
+
+const wallet = ethers.Wallet.createRandom()
+
+function createToken(config: Partial<SignatureConfig> = {}) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls: ['https://api.example.org/*'],
+    telemetry: 'off',
+    ...config,
+  })
+}
+
+function decode(signature: string) {
+  const [encoded, sig] = signature.split('.')
+  return { payload: JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8')), sig }
+}
+
+function encode(payload: object, sig: string) {
+  return `${Buffer.from(JSON.stringify(payload)).toString('base64')}.${sig}`
+}
+
+describe('EIP-712 Session Signatures', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should sign version 2 tokens as typed data', async () => {
+    const signature = await createToken({ version: 2, allowedMethods: ['GET'], maxUses: 2 })
+    const data = verifySessionSignature(signature)
+    const { domain, types, message } = getSessionSignatureTypedData(data)
+
+    expect(data.version).toBe(2)
+    expect(data.allowedMethods).toEqual(['GET'])
+    expect(ethers.utils.verifyTypedData(domain, types, message, decode(signature).sig)).toBe(wallet.address)
+  })
+
+  test('should bind version 2 tokens to a chain', async () => {
+    const signature = await createToken({ version: 2, chainId: 8453 })
+    const data = verifySessionSignature(signature)
+    const { domain, types, message } = getSessionSignatureTypedData(data)
+    const { payload, sig } = decode(signature)
+
+    expect(domain).toEqual({ name: 'Reclaim zkFetch Session', version: '2', chainId: 8453 })
+    expect(ethers.utils.verifyTypedData(domain, types, message, sig)).toBe(wallet.address)
+    // a verifier on another chain computes a different digest
+    expect(ethers.utils.verifyTypedData({ ...domain, chainId: 1 }, types, message, sig)).not.toBe(wallet.address)
+    expect(() => verifySessionSignature(encode({ ...payload, chainId: 1 }, sig))).toThrow(InvalidParamError)
+    expect(() => verifySessionSignature(encode({ ...payload, chainId: undefined }, sig))).toThrow(InvalidParamError)
+
+    await expect(createToken({ chainId: 8453 })).rejects.toThrow(InvalidParamError)
+    await expect(createToken({ version: 2, chainId: 0 })).rejects.toThrow(InvalidParamError)
+  })
+
+  test('should not depend on key order', async () => {
+    const { payload, sig } = decode(await createToken({ version: 2 }))
+    const reordered = Object.fromEntries(Object.entries(payload).reverse())
+
+    expect(verifySessionSignature(encode(reordered, sig)).applicationId).toBe(wallet.address)
+  })
+
+  test('should reject tampered version 2 tokens', async () => {
+    const { payload, sig } = decode(await createToken({ version: 2, allowedMethods: ['GET'] }))
+
+    expect(() => verifySessionSignature(encode({ ...payload, allowedMethods: ['POST'] }, sig))).toThrow(InvalidParamError)
+    expect(() => verifySessionSignature(encode({ ...payload, allowedMethods: undefined }, sig))).toThrow(InvalidParamError)
+    expect(() => verifySessionSignature(encode({ ...payload, version: undefined }, sig))).toThrow(InvalidParamError)
+  })
+
+  test('should issue tokens with a wallet-held signer', async () => {
+    const signature = await createToken({ version: 2, applicationSecret: undefined, signer: wallet })
+
+    expect(verifySessionSignature(signature).applicationId).toBe(wallet.address)
+    await expect(createToken({ version: 2, applicationSecret: undefined, signer: ethers.Wallet.createRandom() }))
+      .rejects.toThrow(InvalidParamError)
+    await expect(createToken({ signer: wallet })).rejects.toThrow(InvalidParamError)
+  })
+
+  test('should keep version 1 as the default', async () => {
+    const data = verifySessionSignature(await createToken())
+
+    expect(data.version).toBeUndefined()
+    expect(data.allowedUrls).toEqual(['https://api.example.org/*'])
+  })
+})
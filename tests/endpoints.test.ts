@@ -0,0 +1,105 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { getAttestorUrl, getTeeUrls, fetchAppById, validateEndpoints } from '../src/utils'
+import { HttpLogSink } from '../src/telemetry'
+import { InvalidParamError } from '../src/errors'
+import { LogType } from '../src/types'
+import { ATTESTOR_NODE_URL } from '../src/constants'
+
+const teeUrls = {
+  teekUrl: 'wss://teek.example.org/ws',
+  teetUrl: 'wss://teet.example.org/ws',
+  teeAttestorUrl: 'wss://tee.example.org/ws',
+}
+
+// feature-flag lookups are cached per backend URL for the whole process,
+// so every test uses backends of its own
+function stubFetch(respond: (url: string) => unknown) {
+  const fetch = vi.fn(async (url: string) => ({ ok: true, status: 200, json: async () => respond(url) }))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+function flag(name: string, value: string) {
+  return [{ name, value, type: 'string' }]
+}
+
+describe('Endpoint Overrides', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should not look up feature flags for explicit URLs', async () => {
+    const fetch = stubFetch(() => [])
+
+    expect(await getAttestorUrl({ attestorUrl: 'ws://localhost:8001/ws' })).toBe('ws://localhost:8001/ws')
+    expect(await getTeeUrls({ teeUrls })).toEqual(teeUrls)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  test('should look up feature flags on the configured backend', async () => {
+    const fetch = stubFetch(url => url.includes('zkFetchAttestorURL')
+      ? flag('zkFetchAttestorURL', 'wss://flagged.example.org/ws')
+      : flag('teeUrls', JSON.stringify(teeUrls)))
+    const endpoints = { backendUrl: 'https://backend-flags.example.org' }
+
+    expect(await getAttestorUrl(endpoints)).toBe('wss://flagged.example.org/ws')
+    expect(await getTeeUrls(endpoints)).toEqual(teeUrls)
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://backend-flags.example.org/api/feature-flags/get?featureFlagNames=zkFetchAttestorURL',
+      'https://backend-flags.example.org/api/feature-flags/get?featureFlagNames=teeUrls',
+    ])
+  })
+
+  test('should cache feature flags per backend URL', async () => {
+    const fetch = stubFetch(url => flag('zkFetchAttestorURL', `wss://${new URL(url).hostname}/ws`))
+
+    expect(await getAttestorUrl({ backendUrl: 'https://backend-a.example.org' })).toBe('wss://backend-a.example.org/ws')
+    expect(await getAttestorUrl({ backendUrl: 'https://backend-b.example.org' })).toBe('wss://backend-b.example.org/ws')
+    expect(await getAttestorUrl({ backendUrl: 'https://backend-a.example.org' })).toBe('wss://backend-a.example.org/ws')
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    // a failed lookup falls back to the default attestor for that backend only
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')))
+    expect(await getAttestorUrl({ backendUrl: 'https://backend-down.example.org' })).toBe(ATTESTOR_NODE_URL)
+    expect(await getAttestorUrl({ backendUrl: 'https://backend-b.example.org' })).toBe('wss://backend-b.example.org/ws')
+  })
+
+  test('should cache applications per backend URL', async () => {
+    const fetch = stubFetch(url => ({ application: { name: new URL(url).hostname } }))
+    const appId = '0x0000000000000000000000000000000000000001'
+
+    expect(await fetchAppById(appId, { backendUrl: 'https://apps-a.example.org' })).toBe('apps-a.example.org')
+    expect(await fetchAppById(appId, { backendUrl: 'https://apps-b.example.org' })).toBe('apps-b.example.org')
+    expect(await fetchAppById(appId, { backendUrl: 'https://apps-a.example.org' })).toBe('apps-a.example.org')
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      `https://apps-a.example.org/api/applications/sdk/get-zk-enabled-app/${appId}`,
+      `https://apps-b.example.org/api/applications/sdk/get-zk-enabled-app/${appId}`,
+    ])
+  })
+
+  test('should send logs to the configured backends', async () => {
+    const fetch = stubFetch(() => ({ application: { name: 'app' } }))
+    const sink = new HttpLogSink({ backendUrl: 'https://apps-logs.example.org', logsUrl: 'https://logs.example.org' })
+
+    await sink.send({
+      sessionId: 'session',
+      logType: LogType.VERIFICATION_STARTED,
+      applicationId: '0x0000000000000000000000000000000000000002',
+    })
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://apps-logs.example.org/api/applications/sdk/get-zk-enabled-app/0x0000000000000000000000000000000000000002',
+      'https://logs.example.org/api/business-logs/zkfetch',
+    ])
+  })
+
+  test('should validate endpoint overrides', () => {
+    expect(() => validateEndpoints({ attestorUrl: 'ws://localhost:8001/ws', teeUrls, backendUrl: 'https://backend.example.org' }))
+      .not.toThrow()
+    expect(() => validateEndpoints({ attestorUrl: 'not a url' })).toThrow(InvalidParamError)
+    expect(() => validateEndpoints({ backendUrl: 'backend.example.org' })).toThrow('endpoints.backendUrl')
+    expect(() => validateEndpoints({ logsUrl: '' })).toThrow(InvalidParamError)
+    expect(() => validateEndpoints({ teeUrls: { ...teeUrls, teetUrl: '' } })).toThrow('teeUrls must include')
+    expect(() => validateEndpoints({ teeUrls: { ...teeUrls, teekUrl: '//teek' } })).toThrow('endpoints.teeUrls.teekUrl')
+    expect(() => validateEndpoints({ attestorUrls: ['wss://a.example.org/ws', 'nope'] })).toThrow('endpoints.attestorUrls[1]')
+  })
+})
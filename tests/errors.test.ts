@@ -0,0 +1,87 @@
+import { expect, test, describe } from 'vitest'
+import {
+  AbortError,
+  AttestorConnectionError,
+  ClaimCreationError,
+  InvalidParamError,
+  RedactionError,
+  ResponseMatchError,
+  SignatureExpiredError,
+  TeeProtocolError,
+  TlsHandshakeError,
+  UpstreamStatusError,
+  UrlNotAllowedError,
+  ZkFetchError,
+  toZkFetchError,
+} from '../src/errors'
+import { ReclaimError } from '../src/interfaces'
+import { retryWithPolicy, resolveRetryPolicy } from '../src/retry'
+
+describe('Error Classification', () => {
+  test('should map attestor failures to typed errors', () => {
+    expect(toZkFetchError(new Error('read ECONNRESET'))).toBeInstanceOf(AttestorConnectionError)
+    expect(toZkFetchError(new Error('Fatal alert: HANDSHAKE_FAILURE'))).toBeInstanceOf(TlsHandshakeError)
+    expect(toZkFetchError(new Error('Certificate is not for host api.example.org'))).toBeInstanceOf(TlsHandshakeError)
+    expect(toZkFetchError(new Error('Invalid receipt. Regex "(?<price>.*)" didn\'t match'))).toBeInstanceOf(ResponseMatchError)
+    expect(toZkFetchError(new Error('jsonPath not found: $.data'))).toBeInstanceOf(RedactionError)
+    expect(toZkFetchError({ code: 'ERROR_NETWORK_ERROR', message: 'proxy closed' })).toBeInstanceOf(AttestorConnectionError)
+    expect(toZkFetchError(new Error('something odd'))).toBeInstanceOf(ClaimCreationError)
+  })
+
+  test('should not mistake other failures for TLS errors', () => {
+    expect(toZkFetchError(new Error('Unexpected server response: 502 during websocket handshake'))).toBeInstanceOf(AttestorConnectionError)
+    expect(toZkFetchError(new Error('Invalid certificate id in request'))).toBeInstanceOf(ClaimCreationError)
+    expect(toZkFetchError(new Error('alerting service unavailable'))).toBeInstanceOf(ClaimCreationError)
+  })
+
+  test('should keep session signature errors catchable as InvalidParamError', () => {
+    const expired = new SignatureExpiredError('Signature has expired')
+    const notAllowed = new UrlNotAllowedError('URL is not allowed')
+
+    expect(expired).toBeInstanceOf(InvalidParamError)
+    expect(notAllowed).toBeInstanceOf(InvalidParamError)
+    expect(expired).toMatchObject({ code: 'SIGNATURE_EXPIRED', retryable: false })
+    expect(notAllowed).toMatchObject({ code: 'URL_NOT_ALLOWED', retryable: false })
+    expect(toZkFetchError(expired)).toBe(expired)
+  })
+
+  test('should carry the upstream status', () => {
+    const error = toZkFetchError(new Error('Expected status 2xx, got 404 (Not Found)')) as UpstreamStatusError
+
+    expect(error).toBeInstanceOf(UpstreamStatusError)
+    expect(error.status).toBe(404)
+    expect(error.retryable).toBe(false)
+  })
+
+  test('should map libreclaim codes to TeeProtocolError', () => {
+    const cause = Object.assign(new Error('connection failed'), { code: ReclaimError.CONNECTION_FAILED })
+    const error = toZkFetchError(cause) as TeeProtocolError
+
+    expect(error).toBeInstanceOf(TeeProtocolError)
+    expect(error.teeCode).toBe(ReclaimError.CONNECTION_FAILED)
+    expect(error.code).toBe('TEE_PROTOCOL')
+    expect(error.retryable).toBe(true)
+    expect(error.cause).toBe(cause)
+  })
+
+  test('should return library errors unchanged', () => {
+    const invalid = new InvalidParamError('bad option')
+    const aborted = new AbortError('aborted')
+    const typed = new RedactionError('bad redaction')
+
+    expect(toZkFetchError(invalid)).toBe(invalid)
+    expect(toZkFetchError(aborted)).toBe(aborted)
+    expect(toZkFetchError(typed)).toBe(typed)
+  })
+
+  test('should record the attempt that failed', async () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3, initialDelayMs: 0, jitter: 'none' })
+
+    const error = await retryWithPolicy(async () => {
+      throw new AttestorConnectionError('socket hang up')
+    }, policy).catch(err => err)
+
+    expect(error).toBeInstanceOf(ZkFetchError)
+    expect(error.attempt).toBe(3)
+  })
+})
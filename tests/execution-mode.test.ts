@@ -0,0 +1,150 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest'
+
+const { teeSDK } = vi.hoisted(() => ({
+  teeSDK: {
+    init: vi.fn(),
+    loadCircuits: vi.fn(),
+    executeProtocolAsync: vi.fn(),
+  },
+}))
+vi.mock('../src/tee', () => ({ ReclaimSDK: vi.fn(function () { return teeSDK }) }))
+
+import { claimResponse, createClaimOnAttestor, createClient } from './attestor'
+import { InvalidParamError, ResponseMatchError, TeeProtocolError } from '../src/errors'
+import { ExecutionMode, LogType } from '../src/types'
+
+const teeResult = {
+  claim: {
+    provider: 'http',
+    parameters: '{}',
+    owner: '0x0000000000000000000000000000000000000002',
+    timestamp_s: 1700000000,
+    context: '{}',
+    identifier: '0x02',
+    epoch: 1,
+  },
+  signatures: [{ attestor_address: '0x0000000000000000000000000000000000000003', claim_signature: '0x04' }],
+}
+
+const logTypes: LogType[] = []
+
+function zkFetch(executionMode: ExecutionMode | undefined, useTee?: boolean) {
+  const client = createClient({
+    telemetry: 'blocking',
+    logSink: { send: async ({ logType }) => { logTypes.push(logType) } },
+    retryPolicy: { maxAttempts: 1 },
+    endpoints: {
+      teeUrls: { teekUrl: 'wss://teek.example.org', teetUrl: 'wss://teet.example.org', teeAttestorUrl: 'wss://tee.example.org' },
+    },
+  })
+  return client.zkFetch('https://api.example.org/items/1', { method: 'GET', executionMode, useTee })
+}
+
+describe('Execution Modes', () => {
+  beforeEach(() => {
+    logTypes.length = 0
+    createClaimOnAttestor.mockReset().mockResolvedValue(claimResponse())
+    teeSDK.init.mockReset()
+    teeSDK.loadCircuits.mockReset().mockResolvedValue([])
+    teeSDK.executeProtocolAsync.mockReset().mockResolvedValue(teeResult)
+  })
+
+  test('should record the path that produced the proof', async () => {
+    expect((await zkFetch(undefined)).executionPath).toBe('attestor')
+    expect((await zkFetch(undefined, true)).executionPath).toBe('tee')
+    expect((await zkFetch('tee')).identifier).toBe('0x02')
+    expect((await zkFetch('attestor', true)).executionPath).toBe('attestor')
+    expect((await zkFetch('tee-with-fallback')).executionPath).toBe('tee')
+    expect(createClaimOnAttestor).toHaveBeenCalledTimes(2)
+  })
+
+  test('should fall back to the attestor when the TEE fails', async () => {
+    teeSDK.executeProtocolAsync.mockRejectedValue(Object.assign(new Error('connection failed'), { code: -2 }))
+    await expect(zkFetch('tee')).rejects.toThrow(TeeProtocolError)
+    expect((await zkFetch('tee-with-fallback')).executionPath).toBe('attestor')
+
+    teeSDK.init.mockImplementation(() => {
+      throw new Error('Unsupported architecture: ia32')
+    })
+    expect((await zkFetch('tee-with-fallback')).executionPath).toBe('attestor')
+  })
+
+  test('should not fall back when the upstream response is the problem', async () => {
+    teeSDK.executeProtocolAsync.mockResolvedValue({ ...teeResult, claim: { ...teeResult.claim, error: 'Invalid receipt' } })
+
+    await expect(zkFetch('tee-with-fallback')).rejects.toThrow(ResponseMatchError)
+    expect(createClaimOnAttestor).not.toHaveBeenCalled()
+  })
+
+  test('should keep the fastest proof and cancel the other path', async () => {
+    let teeSignal: AbortSignal | undefined
+    teeSDK.executeProtocolAsync.mockImplementation((_request, _config, signal: AbortSignal) => {
+      teeSignal = signal
+      return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+    })
+
+    expect((await zkFetch('fastest')).executionPath).toBe('attestor')
+    expect(teeSignal?.aborted).toBe(true)
+
+    createClaimOnAttestor.mockRejectedValue(new Error('socket hang up'))
+    teeSDK.executeProtocolAsync.mockResolvedValue(teeResult)
+    expect((await zkFetch('fastest')).executionPath).toBe('tee')
+
+    teeSDK.executeProtocolAsync.mockRejectedValue(Object.assign(new Error('timeout'), { code: -4 }))
+    await expect(zkFetch('fastest')).rejects.toThrow(/socket hang up/)
+  })
+
+  test('should settle the fastest mode when a path fails with a falsy reason', async () => {
+    teeSDK.init.mockImplementation(() => {
+      throw undefined
+    })
+    createClaimOnAttestor.mockRejectedValue(new Error('socket hang up'))
+
+    await expect(zkFetch('fastest')).rejects.toThrow(/socket hang up/)
+  })
+
+  test('should not log a proof for the path that lost the race', async () => {
+    // the TEE call cannot be interrupted and finishes after the attestor
+    teeSDK.executeProtocolAsync.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(teeResult), 20)))
+
+    expect((await zkFetch('fastest')).executionPath).toBe('attestor')
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(logTypes).toEqual([LogType.VERIFICATION_STARTED, LogType.PROOF_GENERATED])
+  })
+
+  test('should log an error only once the execution mode failed', async () => {
+    teeSDK.executeProtocolAsync.mockImplementation((_request, _config, signal: AbortSignal) =>
+      new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason))))
+    await zkFetch('fastest')
+    expect(logTypes).toEqual([LogType.VERIFICATION_STARTED, LogType.PROOF_GENERATED])
+
+    logTypes.length = 0
+    teeSDK.executeProtocolAsync.mockRejectedValue(Object.assign(new Error('connection failed'), { code: -2 }))
+    await zkFetch('tee-with-fallback')
+    expect(logTypes).toEqual([LogType.VERIFICATION_STARTED, LogType.PROOF_GENERATED])
+
+    logTypes.length = 0
+    createClaimOnAttestor.mockRejectedValue(new Error('socket hang up'))
+    await expect(zkFetch('fastest')).rejects.toThrow(/socket hang up/)
+    expect(logTypes).toEqual([LogType.VERIFICATION_STARTED, LogType.ERROR])
+  })
+
+  test('should not run the TEE protocol again when logging the proof fails', async () => {
+    const client = createClient({
+      telemetry: 'blocking',
+      logSink: { send: async ({ logType }) => { if (logType === LogType.PROOF_GENERATED) throw new Error('logs unavailable') } },
+      retryPolicy: { maxAttempts: 3, initialDelayMs: 1 },
+      endpoints: {
+        teeUrls: { teekUrl: 'wss://teek.example.org', teetUrl: 'wss://teet.example.org', teeAttestorUrl: 'wss://tee.example.org' },
+      },
+    })
+
+    await expect(client.zkFetch('https://api.example.org/items/1', { method: 'GET', useTee: true })).rejects.toThrow('logs unavailable')
+    expect(teeSDK.executeProtocolAsync).toHaveBeenCalledTimes(1)
+  })
+
+  test('should reject unknown modes', async () => {
+    // @ts-expect-error unknown execution mode
+    await expect(zkFetch('edge')).rejects.toThrow(InvalidParamError)
+  })
+})
@@ -0,0 +1,96 @@
+import { expect, test, describe } from 'vitest'
+import { claimResponse, createClaimOnAttestor, createClient } from './attestor'
+import { compileExtractionSchema, parseExtractedValues } from '../src/extraction'
+import { InvalidParamError, ResponseMatchError } from '../src/errors'
+
+const schema = {
+  price: { jsonPath: '$.ethereum.usd', type: 'number' },
+  symbol: { jsonPath: '$.ethereum.symbol', type: 'string' },
+  active: { jsonPath: "$.ethereum['is_active']", type: 'boolean' },
+  supply: { jsonPath: '$.ethereum.supply', type: 'decimal' },
+} as const
+
+// the attestor runs matches over the revealed parts of the body with the 'sgi' flags
+function runMatches(revealed: string, matches: { value: string }[]) {
+  return matches.reduce((params, match) => {
+    const groups = new RegExp(match.value, 'sgi').exec(revealed)?.groups
+    return { ...params, ...groups }
+  }, {} as { [key: string]: string })
+}
+
+describe('Extraction Schema', () => {
+  test('should compile fields into redactions and matches', () => {
+    const { responseMatches, responseRedactions } = compileExtractionSchema(schema)
+
+    expect(responseRedactions).toEqual([
+      { jsonPath: '$.ethereum.usd' },
+      { jsonPath: '$.ethereum.symbol' },
+      { jsonPath: "$.ethereum['is_active']" },
+      { jsonPath: '$.ethereum.supply' },
+    ])
+
+    const revealed = '"usd": 3120.55"symbol":"E\\"TH""is_active":true"supply":"120000000.123456789012"'
+    expect(runMatches(revealed, responseMatches)).toEqual({
+      price: '3120.55',
+      symbol: 'E\\"TH',
+      active: 'true',
+      supply: '120000000.123456789012',
+    })
+  })
+
+  test('should use regex fields as redaction and match', () => {
+    const regex = '"amount"\\s*:\\s*(?<amount>[\\d.]+)'
+    const { responseMatches, responseRedactions } = compileExtractionSchema({
+      amount: { regex, type: 'decimal' },
+    })
+
+    expect(responseRedactions).toEqual([{ regex }])
+    expect(responseMatches).toEqual([{ type: 'regex', value: regex }])
+  })
+
+  test('should reject invalid schemas', () => {
+    expect(() => compileExtractionSchema({})).toThrow(InvalidParamError)
+    expect(() => compileExtractionSchema({ 'my-field': { jsonPath: '$.a', type: 'string' } })).toThrow(InvalidParamError)
+    expect(() => compileExtractionSchema({ a: { type: 'string' } })).toThrow(InvalidParamError)
+    expect(() => compileExtractionSchema({ a: { regex: '(?<b>.*)', type: 'string' } })).toThrow(InvalidParamError)
+    expect(() => compileExtractionSchema({ a: { jsonPath: '$.items[0]', type: 'string' } })).toThrow(InvalidParamError)
+  })
+
+  test('should parse extracted values by type', () => {
+    const extracted = parseExtractedValues(schema, {
+      price: '3120.55',
+      symbol: 'E\\"TH',
+      active: 'false',
+      supply: '120000000.123456789012',
+    })
+
+    expect(extracted).toEqual({
+      price: 3120.55,
+      symbol: 'E"TH',
+      active: false,
+      supply: '120000000.123456789012',
+    })
+  })
+
+  test('should fail on missing or mistyped values', () => {
+    expect(() => parseExtractedValues(schema, { price: '1' })).toThrow(ResponseMatchError)
+    expect(() => parseExtractedValues({ price: schema.price }, { price: 'abc' })).toThrow(ResponseMatchError)
+  })
+
+  test('should attach typed values to the proof', async () => {
+    createClaimOnAttestor.mockImplementation(async ({ params }) => claimResponse({
+      parameters: JSON.stringify({ url: params.url, responseMatches: params.responseMatches }),
+      context: JSON.stringify({ extractedParameters: { price: '3120.55' } }),
+    }))
+
+    const client = createClient()
+
+    const proof = await client.zkFetch('https://api.example.org/price', { method: 'GET' }, {
+      extraction: { price: { jsonPath: '$.ethereum.usd', type: 'number' } },
+    })
+    const price: number = proof.extracted.price
+
+    expect(price).toBe(3120.55)
+    expect(createClaimOnAttestor.mock.calls[0][0].params.responseRedactions).toEqual([{ jsonPath: '$.ethereum.usd' }])
+  })
+})
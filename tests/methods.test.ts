@@ -0,0 +1,47 @@
+import { expect, test, describe } from 'vitest'
+import { claimResponse, createClaimOnAttestor, createClient } from './attestor'
+import { assertCorrectnessOfOptions } from '../src/utils'
+import { HttpMethod } from '../src/types'
+import { InvalidMethodError, InvalidParamError } from '../src/errors'
+
+describe('HTTP Methods', () => {
+  test('should accept every supported method', () => {
+    for (const method of Object.values(HttpMethod)) {
+      expect(() => assertCorrectnessOfOptions({ method, executionMode: 'tee' })).not.toThrow()
+    }
+    expect(() => assertCorrectnessOfOptions({ method: 'TRACE' })).toThrow(InvalidMethodError)
+  })
+
+  test('should only send methods the attestor accepts', () => {
+    for (const method of [HttpMethod.GET, HttpMethod.POST, HttpMethod.PUT, HttpMethod.PATCH]) {
+      expect(() => assertCorrectnessOfOptions({ method })).not.toThrow()
+    }
+    for (const method of [HttpMethod.DELETE, HttpMethod.HEAD, HttpMethod.OPTIONS]) {
+      expect(() => assertCorrectnessOfOptions({ method })).toThrow(InvalidMethodError)
+      expect(() => assertCorrectnessOfOptions({ method, executionMode: 'tee-with-fallback' }))
+        .toThrow(`Method ${method} cannot be used with executionMode 'tee-with-fallback'`)
+      expect(() => assertCorrectnessOfOptions({ method, executionMode: 'fastest' })).toThrow(InvalidMethodError)
+    }
+  })
+
+  test('should reject a body where it has no meaning', () => {
+    for (const method of [HttpMethod.GET, HttpMethod.HEAD, HttpMethod.OPTIONS]) {
+      expect(() => assertCorrectnessOfOptions({ method, body: '{}', executionMode: 'tee' })).toThrow(InvalidParamError)
+    }
+    for (const method of [HttpMethod.POST, HttpMethod.PUT, HttpMethod.PATCH, HttpMethod.DELETE]) {
+      expect(() => assertCorrectnessOfOptions({ method, body: '{}', executionMode: 'tee' })).not.toThrow()
+    }
+  })
+
+  test('should send the method to the attestor', async () => {
+    createClaimOnAttestor.mockResolvedValue(claimResponse())
+
+    const client = createClient()
+    await client.zkFetch('https://api.example.org/items/1', { method: HttpMethod.PATCH, body: '{}' })
+    expect(createClaimOnAttestor.mock.calls[0][0].params.method).toBe('PATCH')
+
+    await expect(client.zkFetch('https://api.example.org/items/1', { method: HttpMethod.DELETE }))
+      .rejects.toThrow(InvalidMethodError)
+    expect(createClaimOnAttestor).toHaveBeenCalledTimes(1)
+  })
+})
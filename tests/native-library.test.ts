@@ -0,0 +1,80 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest'
+import * as fs from 'fs'
+
+const { bindings } = vi.hoisted(() => ({
+  bindings: {
+    loadLibrary: vi.fn(),
+    getVersion: vi.fn(),
+    getLoadedLibraryPath: vi.fn(),
+    LIBRECLAIM_SYMBOLS: ['reclaim_execute_protocol', 'reclaim_get_version'],
+  },
+}))
+vi.mock('../src/bindings', () => bindings)
+
+import { ReclaimSDK } from '../src/tee'
+import { NativeLibraryError } from '../src/errors'
+import { MIN_LIBRECLAIM_VERSION } from '../src/constants'
+
+const LIBC = '/lib/x86_64-linux-gnu/libc.so.6'
+
+describe('Native Library', () => {
+  beforeEach(() => {
+    bindings.loadLibrary.mockReset()
+    bindings.getVersion.mockReset().mockReturnValue('v1.4.2-rc1')
+    bindings.getLoadedLibraryPath.mockReset().mockReturnValue('/opt/lib/libreclaim.so')
+  })
+
+  test('should reject missing and incompatible libraries', async () => {
+    const { loadLibrary } = await vi.importActual<typeof import('../src/bindings')>('../src/bindings')
+
+    expect(() => loadLibrary('/nonexistent/libreclaim.so')).toThrow(NativeLibraryError)
+    expect(() => loadLibrary(__filename)).toThrow(/Failed to load libreclaim/)
+    if (fs.existsSync(LIBC)) {
+      try {
+        loadLibrary(LIBC)
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(NativeLibraryError)
+        expect((error as NativeLibraryError).missingSymbols).toContain('reclaim_execute_protocol')
+      }
+    }
+  })
+
+  test('should report a healthy library', () => {
+    const report = new ReclaimSDK().healthCheck('1.4.0')
+
+    expect(report).toMatchObject({
+      healthy: true,
+      libraryPath: '/opt/lib/libreclaim.so',
+      version: 'v1.4.2-rc1',
+      versionSupported: true,
+      symbols: { reclaim_execute_protocol: true, reclaim_get_version: true },
+    })
+    expect(report.circuits.map(circuit => circuit.loaded)).toEqual([false, false, false])
+    expect(new ReclaimSDK().healthCheck().minVersion).toBe(MIN_LIBRECLAIM_VERSION)
+  })
+
+  test('should report old or unparseable versions', () => {
+    expect(new ReclaimSDK().healthCheck('1.10.0')).toMatchObject({ healthy: false, versionSupported: false })
+    bindings.getVersion.mockReturnValue('dev')
+    expect(new ReclaimSDK().healthCheck('1.0.0').error).toMatch(/Cannot compare/)
+  })
+
+  test('should report load failures without throwing', () => {
+    bindings.loadLibrary.mockImplementation(() => {
+      throw new NativeLibraryError('does not export reclaim_get_version', {
+        libraryPath: '/opt/lib/libreclaim.so',
+        missingSymbols: ['reclaim_get_version'],
+      })
+    })
+    const sdk = new ReclaimSDK()
+
+    expect(sdk.healthCheck()).toMatchObject({
+      healthy: false,
+      libraryPath: '/opt/lib/libreclaim.so',
+      symbols: { reclaim_execute_protocol: true, reclaim_get_version: false },
+      error: 'does not export reclaim_get_version',
+    })
+    expect(() => sdk.init()).toThrow(NativeLibraryError)
+  })
+})
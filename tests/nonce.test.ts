@@ -0,0 +1,132 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { mkdtemp, readFile, readdir, rm, utimes, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { generateSessionSignature, redeemSessionSignature } from '../src/signature'
+import { CallbackNonceStore, FileNonceStore, MemoryNonceStore } from '../src/nonce'
+import { InvalidParamError, NonceStoreCorruptedError, NonceStoreLockTimeoutError, SignatureReplayError } from '../src/errors'
+import { SignatureConfig } from '../src/interfaces'
+
+const wallet = ethers.Wallet.createRandom()
+
+function createToken(config: Partial<SignatureConfig> = {}) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls: [],
+    telemetry: 'off',
+    ...config,
+  })
+}
+
+describe('Session Signature Redemption', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should redeem a single-use token once', async () => {
+    const signature = await createToken({ nonce: 'order-42' })
+    const store = new MemoryNonceStore()
+
+    const redeemed = await redeemSessionSignature(signature, { store })
+    expect(redeemed.signatureData.nonce).toBe('order-42')
+    expect(redeemed).toMatchObject({ uses: 1, remainingUses: 0 })
+    await expect(redeemSessionSignature(signature, { store })).rejects.toThrow(SignatureReplayError)
+  })
+
+  test('should cap concurrent redemptions at maxUses', async () => {
+    const signature = await createToken({ maxUses: 3 })
+    const store = new MemoryNonceStore()
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => redeemSessionSignature(signature, { store }))
+    )
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(3)
+  })
+
+  test('should share counts through a file store', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'nonce-'))
+    try {
+      const signature = await createToken({ maxUses: 2 })
+      const path = join(directory, 'nonces.json')
+      const first = new FileNonceStore({ path })
+      const second = new FileNonceStore({ path })
+
+      await Promise.all([
+        redeemSessionSignature(signature, { store: first }),
+        redeemSessionSignature(signature, { store: second }),
+      ])
+      await expect(redeemSessionSignature(signature, { store: first })).rejects.toThrow(SignatureReplayError)
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('should take over stale locks and leave other holders alone', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'nonce-'))
+    try {
+      const path = join(directory, 'nonces.json')
+      const lockPath = `${path}.lock`
+      const expiresAt = Math.floor(Date.now() / 1000) + 60
+
+      // left over by a crashed process
+      await writeFile(lockPath, 'crashed')
+      const longAgo = new Date(Date.now() - 60000)
+      await utimes(lockPath, longAgo, longAgo)
+      expect(await new FileNonceStore({ path }).increment('a', expiresAt)).toBe(1)
+      expect(await readdir(directory)).toEqual(['nonces.json'])
+
+      // held by a live process
+      await writeFile(lockPath, 'other')
+      const timedOut = new FileNonceStore({ path, lockTimeoutMs: 50 }).increment('a', expiresAt)
+      await expect(timedOut).rejects.toThrow(NonceStoreLockTimeoutError)
+      await expect(timedOut).rejects.toMatchObject({ code: 'NONCE_STORE_LOCK_TIMEOUT', retryable: true })
+      expect(await readFile(lockPath, 'utf8')).toBe('other')
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('should report a corrupted file instead of starting over', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'nonce-'))
+    try {
+      const path = join(directory, 'nonces.json')
+      await writeFile(path, '{"a":{"uses":')
+
+      const corrupted = new FileNonceStore({ path }).increment('a', Math.floor(Date.now() / 1000) + 60)
+      await expect(corrupted).rejects.toThrow(NonceStoreCorruptedError)
+      await expect(corrupted).rejects.toMatchObject({ code: 'NONCE_STORE_CORRUPTED', message: expect.stringMatching(/is corrupted/) })
+      expect(await readFile(path, 'utf8')).toBe('{"a":{"uses":')
+      expect(await readdir(directory)).toEqual(['nonces.json'])
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('should use a custom counter', async () => {
+    const signature = await createToken({ nonce: 'abc', maxUses: 5 })
+    const counts = new Map<string, number>()
+    const store = new CallbackNonceStore({
+      increment: key => {
+        counts.set(key, (counts.get(key) || 0) + 1)
+        return counts.get(key)!
+      },
+    })
+
+    expect((await redeemSessionSignature(signature, { store })).remainingUses).toBe(4)
+    expect(counts.get(`${wallet.address.toLowerCase()}:abc`)).toBe(1)
+  })
+
+  test('should reject tokens without a nonce and invalid limits', async () => {
+    const signature = await createToken()
+
+    await expect(redeemSessionSignature(signature, { store: new MemoryNonceStore() })).rejects.toThrow(InvalidParamError)
+    await expect(createToken({ maxUses: 0 })).rejects.toThrow(InvalidParamError)
+    await expect(createToken({ nonce: '' })).rejects.toThrow(InvalidParamError)
+  })
+})
@@ -0,0 +1,126 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import './attestor'
+import { ReclaimClient } from '../src/zkfetch'
+import { generateSessionSignature } from '../src/signature'
+import {
+  CallbackOwnerKeyStore,
+  FileOwnerKeyStore,
+  MemoryOwnerKeyStore,
+  getOrCreateOwnerKey,
+  verifyOwnerKeyChain,
+  verifyOwnerKeyLink,
+} from '../src/owner-key'
+import { InvalidParamError } from '../src/errors'
+
+async function createSignature(wallet: ethers.Wallet): Promise<string> {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls: [],
+    telemetry: 'off',
+  })
+}
+
+describe('Owner Key Store', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should create a key once and reuse it', async () => {
+    const store = new MemoryOwnerKeyStore()
+    const first = await getOrCreateOwnerKey('app', store)
+    const second = await getOrCreateOwnerKey('app', store)
+
+    expect(second).toBe(first)
+    expect(await store.get('app')).toBe(first)
+  })
+
+  test('should replace an invalid stored key', async () => {
+    const store = new MemoryOwnerKeyStore()
+    await store.set('app', 'not-a-key')
+
+    const ownerKey = await getOrCreateOwnerKey('app', store)
+    expect(() => new ethers.Wallet(ownerKey)).not.toThrow()
+    expect(await store.get('app')).toBe(ownerKey)
+  })
+
+  test('should encrypt keys at rest on disk', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'owner-key-'))
+    try {
+      const ownerKey = ethers.Wallet.createRandom().privateKey
+      await new FileOwnerKeyStore({ directory, passphrase: 'correct horse' }).set('0xApp', ownerKey)
+
+      const raw = await readFile(join(directory, 'reclaim_0xApp.json'), 'utf8')
+      expect(raw).not.toContain(ownerKey.slice(2))
+
+      expect(await new FileOwnerKeyStore({ directory, passphrase: 'correct horse' }).get('0xApp')).toBe(ownerKey)
+      await expect(new FileOwnerKeyStore({ directory, passphrase: 'wrong' }).get('0xApp'))
+        .rejects.toThrow(InvalidParamError)
+      expect(await new FileOwnerKeyStore({ directory, passphrase: 'x' }).get('other')).toBeUndefined()
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('should use the configured store and support export and import', async () => {
+    const wallet = ethers.Wallet.createRandom()
+    const signature = await createSignature(wallet)
+    const saved: { [key: string]: string } = {}
+    const ownerKeyStore = new CallbackOwnerKeyStore({
+      get: id => saved[id],
+      set: (id, key) => { saved[id] = key },
+    })
+
+    const client = new ReclaimClient(wallet.address, signature, { telemetry: 'off', ownerKeyStore })
+    const ownerKey = await client.exportOwnerKey()
+    expect(saved[wallet.address]).toBe(ownerKey)
+
+    const other = ethers.Wallet.createRandom()
+    const keystore = await other.encrypt('pass')
+    await expect(client.importOwnerKey(keystore, 'wrong')).rejects.toThrow(InvalidParamError)
+    await client.importOwnerKey(keystore, 'pass')
+    expect(await client.exportOwnerKey()).toBe(other.privateKey)
+    expect(saved[wallet.address]).toBe(other.privateKey)
+
+    const secretClient = new ReclaimClient(wallet.address, wallet.privateKey, { telemetry: 'off' })
+    await expect(secretClient.exportOwnerKey()).rejects.toThrow(InvalidParamError)
+  }, 30000)
+
+  test('should give each client its own key by default', async () => {
+    const wallet = ethers.Wallet.createRandom()
+    const signature = await createSignature(wallet)
+    const first = new ReclaimClient(wallet.address, signature, { telemetry: 'off' })
+    const second = new ReclaimClient(wallet.address, signature, { telemetry: 'off' })
+
+    expect(first.ownerKey).toBeUndefined()
+    const ownerKey = await first.exportOwnerKey()
+    expect(first.ownerKey).toBe(ownerKey)
+    expect(await second.exportOwnerKey()).not.toBe(ownerKey)
+  })
+
+  test('should rotate the owner key and link it to the previous one', async () => {
+    const wallet = ethers.Wallet.createRandom()
+    const signature = await createSignature(wallet)
+    const client = new ReclaimClient(wallet.address, signature, { telemetry: 'off', ownerKeyStore: new MemoryOwnerKeyStore() })
+
+    const previousOwner = new ethers.Wallet(await client.exportOwnerKey()).address
+    const link = await client.rotateOwnerKey()
+    const newOwner = new ethers.Wallet(await client.exportOwnerKey()).address
+
+    expect(newOwner).not.toBe(previousOwner)
+    expect(link.previousOwner).toBe(previousOwner.toLowerCase())
+    expect(link.newOwner).toBe(newOwner.toLowerCase())
+    expect(verifyOwnerKeyLink(link)).toBe(true)
+    expect(verifyOwnerKeyChain(previousOwner, newOwner, [link])).toBe(true)
+    expect(verifyOwnerKeyChain(newOwner, previousOwner, [link])).toBe(false)
+    expect(verifyOwnerKeyLink({ ...link, newOwner: ethers.Wallet.createRandom().address })).toBe(false)
+  }, 30000)
+})
@@ -0,0 +1,132 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+
+// stand-in for the http provider's redactions, enough for flat "$.key" paths:
+// hides everything but the status line, the header/body separator and the value
+vi.mock('@reclaimprotocol/attestor-core', () => ({
+  createClaimOnAttestor: vi.fn(),
+  proto: { AttestorVersion: { ATTESTOR_VERSION_2_0_1: 4 } },
+  providers: {
+    http: {
+      getResponseRedactions: ({ response, params }: {
+        response: Uint8Array
+        params: { responseRedactions: { jsonPath: string }[] }
+      }) => {
+        const raw = new TextDecoder().decode(response)
+        const headerEnd = raw.indexOf('\r\n\r\n')
+        const key = params.responseRedactions[0].jsonPath.replace(/^\$\./, '')
+        const start = raw.indexOf(`"${key}"`, headerEnd)
+        if (start < 0) {
+          throw new Error('jsonPath not found')
+        }
+        const end = raw.slice(start).search(/[,}]/) + start
+        return [
+          { fromIndex: raw.indexOf('\r\n'), toIndex: headerEnd },
+          { fromIndex: headerEnd + 4, toIndex: start },
+          { fromIndex: end, toIndex: response.length },
+        ]
+      },
+    },
+  },
+}))
+
+import { ReclaimClient } from '../src/zkfetch'
+import { previewRequest } from '../src/preview'
+import { InvalidParamError } from '../src/errors'
+
+const BODY = '{"price":"3120.55","symbol":"ETH","apiKey":"secret"}'
+
+const fetchMock = vi.fn()
+
+describe('Preview zkFetch', () => {
+  beforeEach(() => {
+    fetchMock.mockReset()
+    fetchMock.mockResolvedValue(new Response(BODY, { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should report revealed bytes, matches and extracted parameters', async () => {
+    const preview = await previewRequest('https://api.example.org/price', { method: 'GET' }, {
+      responseRedactions: [{ jsonPath: '$.price' }, { jsonPath: '$.symbol' }],
+      responseMatches: [
+        { type: 'regex', value: '"price":"(?<price>[\\d.]+)"' },
+        { type: 'contains', value: '"symbol":"ETH"' },
+      ],
+    })
+
+    expect(preview.ok).toBe(true)
+    expect(preview.revealed).toEqual([
+      { fromIndex: 1, toIndex: 18, text: '"price":"3120.55"' },
+      { fromIndex: 19, toIndex: 33, text: '"symbol":"ETH"' },
+    ])
+    expect(preview.redactedBody).toBe('*"price":"3120.55"*"symbol":"ETH"*******************')
+    expect(preview.extractedParameters).toEqual({ price: '3120.55' })
+    expect(preview.matches.map(match => match.passed)).toEqual([true, true])
+  })
+
+  test('should report failed matches against hidden bytes', async () => {
+    const preview = await previewRequest('https://api.example.org/price', { method: 'GET' }, {
+      responseRedactions: [{ jsonPath: '$.price' }],
+      responseMatches: [{ type: 'contains', value: 'secret' }],
+    })
+
+    expect(preview.ok).toBe(false)
+    expect(preview.matches[0].passed).toBe(false)
+    expect(preview.errors).toEqual(['Invalid receipt. Response does not contain "secret"'])
+  })
+
+  test('should report redaction errors and non-2xx responses', async () => {
+    fetchMock.mockResolvedValue(new Response(BODY, { status: 404, statusText: 'Not Found' }))
+
+    const preview = await previewRequest('https://api.example.org/price', { method: 'GET' }, {
+      responseRedactions: [{ jsonPath: '$.missing' }],
+    })
+
+    expect(preview.ok).toBe(false)
+    expect(preview.status).toBe(404)
+    expect(preview.errors).toEqual(['Expected status 2xx, got 404 (Not Found)', 'jsonPath not found'])
+  })
+
+  test('should invert response matches like the attestor', async () => {
+    const preview = await previewRequest('https://api.example.org/price', { method: 'GET' }, {
+      responseMatches: [
+        { type: 'contains', value: '"error"', invert: true },
+        { type: 'regex', value: '"symbol":"BTC"', invert: true },
+        { type: 'contains', value: 'ETH', invert: true },
+      ],
+    })
+
+    expect(preview.matches.map(match => [match.invert, match.passed])).toEqual([[true, true], [true, true], [true, false]])
+    expect(preview.errors).toEqual(['Invalid receipt. Response contains "ETH"'])
+  })
+
+  test('should send secret headers and substitute params', async () => {
+    await previewRequest('https://api.example.org/{{path}}', { method: 'GET', paramValues: { path: 'price' } }, {
+      headers: { authorization: 'Bearer {{token}}' },
+      paramValues: { token: 'abc' },
+      cookieStr: 'session=1',
+    })
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://api.example.org/price')
+    expect(init.headers).toMatchObject({ authorization: 'Bearer abc', Cookie: 'session=1' })
+
+    await expect(previewRequest('https://api.example.org/{{missing}}')).rejects.toBeInstanceOf(InvalidParamError)
+  })
+
+  test('should compile the extraction schema on the client', async () => {
+    const wallet = ethers.Wallet.createRandom()
+    const client = new ReclaimClient(wallet.address, wallet.privateKey, { telemetry: 'off' })
+
+    const preview = await client.previewZkFetch('https://api.example.org/price', { method: 'GET' }, {
+      extraction: { price: { jsonPath: '$.price', type: 'decimal' } },
+    })
+
+    expect(preview.ok).toBe(true)
+    expect(preview.extractedParameters).toEqual({ price: '3120.55' })
+  })
+})
@@ -0,0 +1,115 @@
+import { expect, test, describe } from 'vitest'
+import {
+  isRetryableError,
+  resolveRetryPolicy,
+  legacyRetryPolicy,
+  computeRetryDelay,
+  retryWithPolicy,
+} from '../src/retry'
+import { InvalidParamError, NetworkError, TimeoutError } from '../src/errors'
+
+describe('Retry Classification', () => {
+  test('should not retry deterministic claim failures', () => {
+    expect(isRetryableError(new InvalidParamError('bad option'))).toBe(false)
+    expect(isRetryableError(new Error('Invalid receipt. Regex "(?<price>.*)" didn\'t match'))).toBe(false)
+    expect(isRetryableError(new Error('Expected status 2xx, got 404 (Not Found)'))).toBe(false)
+    expect(isRetryableError(Object.assign(new Error('claim failed'), { code: 'ERROR_INVALID_CLAIM' }))).toBe(false)
+    expect(isRetryableError(new TimeoutError('timed out'))).toBe(false)
+  })
+
+  test('should retry transient failures', () => {
+    expect(isRetryableError(new NetworkError('Failed to send logs'))).toBe(true)
+    expect(isRetryableError(new Error('Expected status 2xx, got 503 (Service Unavailable)'))).toBe(true)
+    expect(isRetryableError(new Error('Expected status 2xx, got 429 (Too Many Requests)'))).toBe(true)
+    expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('connection failed'), { code: -2 }))).toBe(true)
+    expect(isRetryableError(Object.assign(new Error('invalid args'), { code: -1 }))).toBe(false)
+  })
+
+  test('should retry unrecognized errors', () => {
+    expect(isRetryableError(new Error('something unexpected'))).toBe(true)
+    expect(isRetryableError('not an error')).toBe(true)
+  })
+})
+
+describe('Retry Policy', () => {
+  test('should default to a single attempt', () => {
+    expect(resolveRetryPolicy().maxAttempts).toBe(1)
+  })
+
+  test('should apply overrides in order', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3 }, { maxAttempts: 5, jitter: 'none' })
+
+    expect(policy.maxAttempts).toBe(5)
+    expect(policy.jitter).toBe('none')
+    expect(policy.backoff).toBe('exponential')
+  })
+
+  test('should reject invalid policies', () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow('maxAttempts')
+    // @ts-expect-error unknown backoff strategy
+    expect(() => resolveRetryPolicy({ backoff: 'fibonacci' })).toThrow('backoff')
+  })
+
+  test('should keep legacy retryInterval as a constant delay', () => {
+    const policy = resolveRetryPolicy(legacyRetryPolicy(4, 250))
+
+    expect(policy.maxAttempts).toBe(4)
+    expect(computeRetryDelay(policy, 1)).toBe(250)
+    expect(computeRetryDelay(policy, 3)).toBe(250)
+  })
+
+  test('should compute exponential backoff capped at maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 500, jitter: 'none' })
+
+    expect([1, 2, 3, 4].map(attempt => computeRetryDelay(policy, attempt))).toEqual([100, 200, 400, 500])
+  })
+
+  test('should apply jitter within bounds', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 1000, jitter: 'equal' })
+
+    expect(computeRetryDelay(policy, 1, () => 0)).toBe(500)
+    expect(computeRetryDelay(policy, 1, () => 0.999)).toBeLessThan(1000)
+    expect(computeRetryDelay({ ...policy, jitter: 'full' }, 1, () => 0.5)).toBe(500)
+  })
+})
+
+describe('retryWithPolicy', () => {
+  test('should retry transient failures until success', async () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3, initialDelayMs: 1 })
+    let calls = 0
+    const result = await retryWithPolicy(async () => {
+      calls++
+      if (calls < 3) {
+        throw new Error('socket hang up')
+      }
+      return 'proof'
+    }, policy)
+
+    expect(result).toBe('proof')
+    expect(calls).toBe(3)
+  })
+
+  test('should stop on non-retryable failures', async () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, initialDelayMs: 1 })
+    let calls = 0
+    await expect(retryWithPolicy(async () => {
+      calls++
+      throw new InvalidParamError('bad option')
+    }, policy)).rejects.toThrow('bad option')
+
+    expect(calls).toBe(1)
+  })
+
+  test('should pass the attempt number to shouldRetry', async () => {
+    const seen: number[] = []
+    const policy = resolveRetryPolicy({
+      maxAttempts: 5,
+      initialDelayMs: 1,
+      shouldRetry: (_error, attempt) => { seen.push(attempt); return attempt < 2 },
+    })
+    await expect(retryWithPolicy(async () => { throw new Error('boom') }, policy)).rejects.toThrow('boom')
+
+    expect(seen).toEqual([1, 2])
+  })
+})
@@ -0,0 +1,113 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { createClaimOnAttestor } from './attestor'
+import { ReclaimClient } from '../src/zkfetch'
+import { checkSessionSignature, generateSessionSignature, verifySessionSignature } from '../src/signature'
+import { HttpRevocationListProvider, createRevocationList } from '../src/revocation'
+import { InvalidParamError, NetworkError, SignatureRevokedError } from '../src/errors'
+import { SignedRevocationList } from '../src/interfaces'
+
+const wallet = ethers.Wallet.createRandom()
+
+function createToken() {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls: [],
+    telemetry: 'off',
+  })
+}
+
+function revoke(revokedTokenIds: string[]) {
+  return createRevocationList({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    revokedTokenIds,
+  })
+}
+
+describe('Session Signature Revocation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should reject a revoked token', async () => {
+    const signature = await createToken()
+    const { tokenId } = verifySessionSignature(signature)
+    expect(tokenId).toBeTruthy()
+
+    const revocationList = await revoke([tokenId!])
+    expect(() => verifySessionSignature(signature, { revocationList })).toThrow(SignatureRevokedError)
+    const otherList = await revoke(['other'])
+    expect(() => verifySessionSignature(signature, { revocationList: otherList })).not.toThrow()
+  })
+
+  test('should reject tampered or foreign revocation lists', async () => {
+    const signature = await createToken()
+    const list = await revoke(['other'])
+    const other = ethers.Wallet.createRandom()
+    const foreign = await createRevocationList({
+      applicationId: other.address,
+      applicationSecret: other.privateKey,
+      revokedTokenIds: [],
+    })
+
+    expect(() => verifySessionSignature(signature, { revocationList: { ...list, revokedTokenIds: [] } }))
+      .toThrow(InvalidParamError)
+    expect(() => verifySessionSignature(signature, { revocationList: foreign })).toThrow(InvalidParamError)
+  })
+
+  test('should fetch the list over HTTP when a token is checked', async () => {
+    const signature = await createToken()
+    const { tokenId } = verifySessionSignature(signature)
+    const provider = new HttpRevocationListProvider({ url: 'https://example.org/revoked.json' })
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503, json: async () => ({}) }))
+    // without any list the token cannot be checked
+    await expect(checkSessionSignature(signature, { revocationProvider: provider })).rejects.toThrow(NetworkError)
+
+    const empty = await revoke([])
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => empty }))
+    await expect(checkSessionSignature(signature, { revocationProvider: provider })).resolves.toMatchObject({ tokenId })
+
+    // revoked since the last check
+    const list = await revoke([tokenId!])
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => list }))
+    await expect(checkSessionSignature(signature, { revocationProvider: provider })).rejects.toThrow(SignatureRevokedError)
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503, json: async () => ({}) }))
+    await expect(provider.refresh()).rejects.toThrow(NetworkError)
+    expect(await provider.getRevocationList(wallet.address)).toEqual(list)
+  })
+
+  test('should only fetch lists older than maxAgeMs', async () => {
+    const provider = new HttpRevocationListProvider({ url: 'https://example.org/revoked.json', maxAgeMs: 60_000 })
+    const list = await revoke([])
+    const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => list })
+    vi.stubGlobal('fetch', fetch)
+
+    await Promise.all([provider.getRevocationList(wallet.address), provider.getRevocationList(wallet.address)])
+    await provider.getRevocationList(wallet.address)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(() => new HttpRevocationListProvider({ url: 'https://example.org/revoked.json', maxAgeMs: -1 }))
+      .toThrow(InvalidParamError)
+  })
+
+  test('should ask the provider before every request of a client', async () => {
+    const signature = await createToken()
+    const { tokenId } = verifySessionSignature(signature)
+    let revoked: SignedRevocationList | undefined
+    const client = new ReclaimClient(wallet.address, signature, {
+      telemetry: 'off',
+      revocationProvider: { getRevocationList: async () => revoked },
+    })
+
+    revoked = await revoke([tokenId!])
+    await expect(client.zkFetch('https://example.org/api', { method: 'GET' })).rejects.toThrow(SignatureRevokedError)
+    expect(createClaimOnAttestor).not.toHaveBeenCalled()
+  })
+})
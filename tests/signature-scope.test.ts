@@ -0,0 +1,105 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { ATTESTOR_URL, claimResponse, createClaimOnAttestor } from './attestor'
+import { ReclaimClient } from '../src/zkfetch'
+import { generateSessionSignature, verifySessionSignature } from '../src/signature'
+import { MemoryOwnerKeyStore } from '../src/owner-key'
+import { InvalidParamError, RequestNotAllowedError } from '../src/errors'
+import { SignatureScope } from '../src/interfaces'
+
+const wallet = ethers.Wallet.createRandom()
+const contextAddress = ethers.Wallet.createRandom().address
+
+async function createToken(scope: SignatureScope, allowedUrls = ['https://api.example.org/*']) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+    status: 200,
+    json: async () => ({ application: { name: 'test-app' } }),
+  }))
+  return generateSessionSignature({
+    applicationId: wallet.address,
+    applicationSecret: wallet.privateKey,
+    allowedUrls,
+    telemetry: 'off',
+    ...scope,
+  })
+}
+
+async function createClient(scope: SignatureScope, allowedUrls?: string[]) {
+  const signature = await createToken(scope, allowedUrls)
+  return new ReclaimClient(wallet.address, signature, {
+    telemetry: 'off',
+    endpoints: { attestorUrl: ATTESTOR_URL },
+    ownerKeyStore: new MemoryOwnerKeyStore(),
+  })
+}
+
+describe('Signature Scope', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should sign the scope into the token', async () => {
+    const client = await createClient({ allowedMethods: ['GET'], maxBodyBytes: 10, contextAddress })
+
+    expect(client.signatureData).toMatchObject({ allowedMethods: ['GET'], maxBodyBytes: 10, contextAddress })
+  })
+
+  test('should only add the restrictions that are set', async () => {
+    const client = await createClient({})
+
+    expect(Object.keys(client.signatureData!)).toEqual(['applicationId', 'allowedUrls', 'expiresAt', 'tokenId'])
+  })
+
+  test('should reject an invalid scope', async () => {
+    await expect(createClient({ allowedMethods: ['TRACE'] })).rejects.toThrow(InvalidParamError)
+    await expect(createClient({ methodsByPattern: { 'https://other.org/*': ['GET'] } })).rejects.toThrow(InvalidParamError)
+    await expect(createClient({ maxBodyBytes: -1 })).rejects.toThrow(InvalidParamError)
+    await expect(createClient({ contextAddress: 'nope' })).rejects.toThrow(InvalidParamError)
+  })
+
+  test('should enforce methods, body size and context before contacting the attestor', async () => {
+    const client = await createClient(
+      {
+        allowedMethods: ['GET'],
+        methodsByPattern: { 'https://api.example.org/orders/*': ['POST'] },
+        maxBodyBytes: 16,
+        contextAddress,
+      },
+      ['https://api.example.org/*', 'https://api.example.org/orders/*']
+    )
+    const context = { contextAddress, contextMessage: 'test' }
+
+    await expect(client.zkFetch('https://api.example.org/items', { method: 'POST', body: '{}', context }))
+      .rejects.toThrow(RequestNotAllowedError)
+    await expect(client.zkFetch('https://api.example.org/orders/1', { method: 'GET', context }))
+      .rejects.toThrow(RequestNotAllowedError)
+    await expect(client.zkFetch('https://api.example.org/orders/1', {
+      method: 'POST',
+      body: '{"id":"{{id}}"}',
+      context,
+    }, { paramValues: { id: 'a-long-secret-id' } })).rejects.toThrow(/at most 16/)
+    await expect(client.zkFetch('https://api.example.org/items', { method: 'GET' }))
+      .rejects.toThrow(RequestNotAllowedError)
+    expect(createClaimOnAttestor).not.toHaveBeenCalled()
+  })
+
+  test('should allow requests within the scope', async () => {
+    createClaimOnAttestor.mockResolvedValue(claimResponse())
+    const client = await createClient({ allowedMethods: ['POST'], maxBodyBytes: 16, contextAddress })
+
+    await client.zkFetch('https://api.example.org/orders', {
+      method: 'POST',
+      body: '{"id":1}',
+      context: { contextAddress: contextAddress.toLowerCase(), contextMessage: 'test' },
+    })
+    expect(createClaimOnAttestor).toHaveBeenCalledTimes(1)
+  })
+
+  test('should detect a tampered scope', async () => {
+    const [encoded, sig] = (await createToken({ allowedMethods: ['GET'] })).split('.')
+    const payload = JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8'))
+    const tampered = Buffer.from(JSON.stringify({ ...payload, allowedMethods: ['POST'] })).toString('base64')
+
+    expect(() => verifySessionSignature(`${tampered}.${sig}`)).toThrow(InvalidParamError)
+  })
+})
@@ -0,0 +1,92 @@
+import { expect, test, describe } from 'vitest'
+import { ethers } from 'ethers'
+import { ATTESTOR_URL, createClaimOnAttestor } from './attestor'
+import { ReclaimClient } from '../src/zkfetch'
+import { MockTeeBackend } from '../src/tee-mock'
+import { ReclaimSDK, ReclaimProtocolError } from '../src/tee'
+import { verifyProof } from '../src/verify'
+import { AbortError, InvalidParamError, TeeProtocolError, TimeoutError } from '../src/errors'
+import { ReclaimError } from '../src/interfaces'
+
+const wallet = ethers.Wallet.createRandom()
+
+function createClient(teeBackend: MockTeeBackend, maxAttempts = 1) {
+  return new ReclaimClient(wallet.address, wallet.privateKey, {
+    telemetry: 'off',
+    retryPolicy: { maxAttempts, initialDelayMs: 1 },
+    teeBackend,
+    endpoints: {
+      attestorUrl: ATTESTOR_URL,
+      teeUrls: { teekUrl: 'wss://teek.example.org', teetUrl: 'wss://teet.example.org', teeAttestorUrl: 'wss://tee.example.org' },
+    },
+  })
+}
+
+function zkFetch(client: ReclaimClient, options: { timeoutMs?: number; signal?: AbortSignal } = {}) {
+  return client.zkFetch('https://api.example.org/items/1', { method: 'GET', useTee: true, ...options })
+}
+
+describe('Mock TEE Backend', () => {
+  test('should produce deterministic proofs signed by the local key', async () => {
+    const mock = new MockTeeBackend({ extractedParameters: { price: '42' } })
+    const client = createClient(mock)
+
+    const proof = await zkFetch(client)
+    expect(proof).toMatchObject({ executionPath: 'tee', extractedParameterValues: { price: '42' } })
+    expect(proof.witnesses).toEqual([{ id: mock.address, url: 'wss://tee.example.org' }])
+    expect(verifyProof(proof, { trustedWitnesses: [mock.address] }).isValid).toBe(true)
+    expect(await zkFetch(client)).toEqual(proof)
+    expect(mock.calls[0].request.secretParams).toBeDefined()
+    expect(JSON.parse(proof.claimData.parameters)).not.toHaveProperty('secretParams')
+    expect(createClaimOnAttestor).not.toHaveBeenCalled()
+  })
+
+  test('should map simulated libreclaim errors', async () => {
+    const mock = new MockTeeBackend()
+    const client = createClient(mock)
+
+    mock.failNext(ReclaimError.TIMEOUT)
+    await expect(zkFetch(client)).rejects.toMatchObject({ teeCode: ReclaimError.TIMEOUT, retryable: true })
+    mock.failNext(ReclaimError.PROTOCOL_FAILED)
+    const error = await zkFetch(client).catch(error => error)
+    expect(error).toBeInstanceOf(TeeProtocolError)
+    expect(error).toMatchObject({ teeCode: ReclaimError.PROTOCOL_FAILED, retryable: false })
+    expect(error.cause).toBeInstanceOf(ReclaimProtocolError)
+
+    await expect(zkFetch(client)).resolves.toMatchObject({ executionPath: 'tee' })
+  })
+
+  test('should retry transient failures', async () => {
+    const mock = new MockTeeBackend()
+    mock.failNext(ReclaimError.CONNECTION_FAILED, 2)
+
+    await expect(zkFetch(createClient(mock, 3))).resolves.toMatchObject({ executionPath: 'tee' })
+    expect(mock.calls).toHaveLength(3)
+  })
+
+  test('should simulate timeouts and honour aborts', async () => {
+    const slow = new MockTeeBackend({ latencyMs: 5000 })
+    const sdk = new ReclaimSDK(undefined, undefined, slow)
+    sdk.init()
+
+    await expect(sdk.executeProtocolAsync({ name: 'http', params: {} }, { timeout_ms: 20 }))
+      .rejects.toMatchObject({ code: ReclaimError.TIMEOUT })
+    await expect(zkFetch(createClient(slow), { timeoutMs: 50 })).rejects.toThrow(TimeoutError)
+
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 20)
+    await expect(slow.executeProtocol({ name: 'http', params: {} }, undefined, controller.signal)).rejects.toThrow(AbortError)
+
+    await expect(new MockTeeBackend({ error: ReclaimError.MEMORY }).executeProtocol({ name: 'http' }))
+      .rejects.toThrow(ReclaimProtocolError)
+    await expect(sdk.loadCircuits()).rejects.toThrow(InvalidParamError)
+  })
+
+  test('should validate options', () => {
+    // @ts-expect-error unknown libreclaim code
+    expect(() => new MockTeeBackend({ error: -99 })).toThrow(InvalidParamError)
+    expect(() => new MockTeeBackend({ latencyMs: -1 })).toThrow(InvalidParamError)
+    // @ts-expect-error unknown libreclaim code
+    expect(() => new MockTeeBackend().failNext(1)).toThrow(InvalidParamError)
+  })
+})
@@ -0,0 +1,119 @@
+import { expect, test, describe, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { TeeWorkerPool } from '../src/tee-pool'
+import { ReclaimSDK, ReclaimProtocolError } from '../src/tee'
+import { AbortError, InvalidParamError, TeeWorkerCrashError } from '../src/errors'
+import { TeeProviderRequest } from '../src/interfaces'
+
+// stands in for tee-worker.js, which needs libreclaim; params.url selects the behaviour
+const FAKE_WORKER = `
+const { parentPort, threadId } = require('worker_threads')
+parentPort.on('message', ({ id, request }) => {
+  const { url, delayMs } = request.params
+  if (url === 'crash') process.exit(3)
+  if (url === 'throw') throw new Error('native fault')
+  // a blocking native call, which terminate() cannot interrupt
+  if (url === 'native') require('child_process').execFileSync('sleep', [String(delayMs / 1000)])
+  if (url === 'fail') return parentPort.postMessage({ id, error: { name: 'ReclaimProtocolError', message: 'Protocol failed', code: -3 } })
+  // blocks the worker thread like a native call
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, delayMs || 0)
+  const claim = { identifier: url, owner: String(threadId), provider: 'http', parameters: '', context: '', timestamp_s: 0, epoch: 0 }
+  parentPort.postMessage({ id, result: { claim, signatures: [] } })
+})
+`
+
+let dir: string
+let workerPath: string
+
+function request(url: string, delayMs?: number): TeeProviderRequest {
+  return { name: 'http', params: { url, delayMs } }
+}
+
+describe('TEE Worker Pool', () => {
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tee-pool-'))
+    workerPath = path.join(dir, 'worker.js')
+    fs.writeFileSync(workerPath, FAKE_WORKER)
+  })
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should run executions in parallel without blocking the event loop', async () => {
+    const pool = new TeeWorkerPool({ size: 2, workerPath })
+    let ticks = 0
+    const timer = setInterval(() => ticks++, 10)
+
+    const started = Date.now()
+    const results = await Promise.all([pool.run(request('a', 300)), pool.run(request('b', 300))])
+    clearInterval(timer)
+
+    expect(Date.now() - started).toBeLessThan(550)
+    expect(ticks).toBeGreaterThan(5)
+    expect(new Set(results.map(result => result.claim.owner)).size).toBe(2)
+    await pool.close()
+  })
+
+  test('should queue executions beyond the pool size', async () => {
+    const pool = new TeeWorkerPool({ size: 1, workerPath })
+    const results = await Promise.all([pool.run(request('a', 50)), pool.run(request('b', 50))])
+
+    expect(results.map(result => result.claim.identifier)).toEqual(['a', 'b'])
+    await pool.close()
+  })
+
+  test('should isolate crashed workers', async () => {
+    const pool = new TeeWorkerPool({ size: 1, workerPath })
+
+    await expect(pool.run(request('crash'))).rejects.toThrow(TeeWorkerCrashError)
+    await expect(pool.run(request('throw'))).rejects.toThrow(/native fault/)
+    await expect(pool.run(request('ok'))).resolves.toMatchObject({ claim: { identifier: 'ok' } })
+    await pool.close()
+  })
+
+  test('should terminate the worker of an aborted execution', async () => {
+    const pool = new TeeWorkerPool({ size: 1, workerPath })
+    const controller = new AbortController()
+    const running = pool.run(request('slow', 5000), undefined, controller.signal)
+    const queued = pool.run(request('next'))
+
+    setTimeout(() => controller.abort(), 50)
+    await expect(running).rejects.toThrow(AbortError)
+    await expect(queued).resolves.toMatchObject({ claim: { identifier: 'next' } })
+    await pool.close()
+  })
+
+  test('should count terminating workers toward the pool size until they exit', async () => {
+    const pool = new TeeWorkerPool({ size: 1, workerPath })
+    const controller = new AbortController()
+    const running = pool.run(request('native', 400), undefined, controller.signal)
+    const started = Date.now()
+    const queued = pool.run(request('next'))
+
+    setTimeout(() => controller.abort(), 50)
+    await expect(running).rejects.toThrow(AbortError)
+    await expect(queued).resolves.toMatchObject({ claim: { identifier: 'next' } })
+    expect(Date.now() - started).toBeGreaterThanOrEqual(350)
+    await pool.close()
+  })
+
+  test('should run the TypeScript worker without a workerPath', async () => {
+    const pool = new TeeWorkerPool({ size: 1 }, path.join(dir, 'libreclaim.so'))
+
+    const error = await pool.run(request('a')).catch(error => error)
+    expect(error).toMatchObject({ name: 'NativeLibraryError', message: expect.stringContaining('libreclaim not found') })
+    await pool.close()
+  })
+
+  test('should restore libreclaim errors and validate options', async () => {
+    const sdk = new ReclaimSDK(undefined, { workerPath })
+
+    await expect(sdk.executeProtocolAsync(request('fail'))).rejects.toThrow(ReclaimProtocolError)
+    await sdk.close()
+    expect(() => new TeeWorkerPool({ size: 0, workerPath })).toThrow(InvalidParamError)
+    expect(() => new TeeWorkerPool({ workerPath: path.join(dir, 'missing.js') })).toThrow(InvalidParamError)
+  })
+})
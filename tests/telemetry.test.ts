@@ -0,0 +1,47 @@
+import { expect, test, describe } from 'vitest'
+import { emitLog, resolveTelemetryMode } from '../src/telemetry'
+import { LogSink, SendLogsParams } from '../src/interfaces'
+import { LogType } from '../src/types'
+
+const params: SendLogsParams = {
+  sessionId: 'session',
+  logType: LogType.VERIFICATION_STARTED,
+  applicationId: '0x0000000000000000000000000000000000000000',
+}
+
+const failingSink: LogSink = {
+  send: async () => { throw new Error('logs backend down') },
+}
+
+describe('Telemetry', () => {
+  test('should default to fire-and-forget', () => {
+    expect(resolveTelemetryMode()).toBe('fire-and-forget')
+    // @ts-expect-error unknown telemetry mode
+    expect(() => resolveTelemetryMode('sometimes')).toThrow('telemetry must be one of')
+  })
+
+  test('should not send anything when off', async () => {
+    const sent: SendLogsParams[] = []
+    await emitLog({ send: async (p) => { sent.push(p) } }, 'off', params)
+
+    expect(sent).toHaveLength(0)
+  })
+
+  test('should swallow sink failures in fire-and-forget mode', async () => {
+    await expect(emitLog(failingSink, 'fire-and-forget', params)).resolves.toBeUndefined()
+  })
+
+  test('should not wait for the sink in fire-and-forget mode', async () => {
+    let delivered = false
+    const slowSink: LogSink = {
+      send: () => new Promise(resolve => setTimeout(() => { delivered = true; resolve() }, 50)),
+    }
+    await emitLog(slowSink, 'fire-and-forget', params)
+
+    expect(delivered).toBe(false)
+  })
+
+  test('should surface sink failures in blocking mode', async () => {
+    await expect(emitLog(failingSink, 'blocking', params)).rejects.toThrow('logs backend down')
+  })
+})
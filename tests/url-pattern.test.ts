@@ -0,0 +1,125 @@
+import { expect, test, describe, vi, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { compileUrlPattern, isUrlAllowed, isUrlPatternWithin, lintAllowedUrls } from '../src/url-pattern'
+import { generateSessionSignature } from '../src/signature'
+import { InvalidParamError } from '../src/errors'
+
+const wallet = ethers.Wallet.createRandom()
+
+function codes(patterns: string[]) {
+  return lintAllowedUrls(patterns).map(issue => issue.code)
+}
+
+describe('URL Patterns', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('should match subdomain wildcards on label boundaries', () => {
+    const pattern = compileUrlPattern('https://*.example.com/data')
+
+    expect(pattern.kind).toBe('glob')
+    expect(pattern.test('https://api.example.com/data')).toBe(true)
+    expect(pattern.test('https://a.b.example.com/data')).toBe(true)
+    expect(pattern.test('https://example.com/data')).toBe(false)
+    expect(pattern.test('https://evilexample.com/data')).toBe(false)
+    expect(pattern.test('https://api.example.com.evil.com/data')).toBe(false)
+    expect(pattern.test('http://api.example.com/data')).toBe(false)
+  })
+
+  test('should match path segment wildcards', () => {
+    const segment = compileUrlPattern('https://api.example.com/users/*/orders')
+    const deep = compileUrlPattern('https://api.example.com/**/export.csv')
+    const partial = compileUrlPattern('https://api.example.com/files/report-*.json')
+
+    expect(segment.test('https://api.example.com/users/42/orders')).toBe(true)
+    expect(segment.test('https://api.example.com/users/42/7/orders')).toBe(false)
+    expect(segment.test('https://api.example.com/users//orders')).toBe(false)
+    expect(deep.test('https://api.example.com/a/b/export.csv')).toBe(true)
+    expect(deep.test('https://api.example.com/export.csv')).toBe(true)
+    expect(partial.test('https://api.example.com/files/report-2024.json')).toBe(true)
+    expect(partial.test('https://api.example.com/files/x/report-2024.json')).toBe(false)
+  })
+
+  test('should keep trailing wildcards on segment boundaries', () => {
+    const pattern = compileUrlPattern('https://api.example.com/v1/*')
+
+    expect(pattern.test('https://api.example.com/v1')).toBe(true)
+    expect(pattern.test('https://api.example.com/v1/users/1?page=2')).toBe(true)
+    expect(pattern.test('https://api.example.com/v1abc')).toBe(false)
+    expect(pattern.test('https://api.example.com/v1/../admin')).toBe(false)
+    expect(compileUrlPattern('https://api.example.com/v1*').test('https://api.example.com/v1abc')).toBe(true)
+  })
+
+  test('should enforce listed query parameters', () => {
+    const pattern = compileUrlPattern('https://api.example.com/price?ids=*&vs=usd')
+
+    expect(pattern.test('https://api.example.com/price?ids=btc&vs=usd')).toBe(true)
+    expect(pattern.test('https://api.example.com/price?vs=usd&ids=eth&extra=1')).toBe(true)
+    expect(pattern.test('https://api.example.com/price?ids=btc&vs=eur')).toBe(false)
+    expect(pattern.test('https://api.example.com/price?ids=btc&vs=usd&vs=eur')).toBe(false)
+    expect(pattern.test('https://api.example.com/price?ids=btc')).toBe(false)
+  })
+
+  test('should treat re: patterns and legacy regexes as regular expressions', () => {
+    const prefixed = compileUrlPattern('re:^https://api\\.example\\.com/user/\\d+$')
+
+    expect(prefixed.kind).toBe('regex')
+    expect(prefixed.test('https://api.example.com/user/42')).toBe(true)
+    expect(prefixed.test('https://api.example.com/user/abc')).toBe(false)
+    expect(isUrlAllowed('https://api.example.com/user/42', ['^https://api\\.example\\.com/user/\\d+$'])).toBe(true)
+    expect(() => compileUrlPattern('re:^https://(')).toThrow(InvalidParamError)
+    expect(() => compileUrlPattern('https://api.*.example.com/')).toThrow(InvalidParamError)
+  })
+
+  test('should keep exact and legacy wildcard matching', () => {
+    const allowedUrls = ['https://api.example.com/data', 'https://api.example.com/users/*']
+
+    expect(isUrlAllowed('https://api.example.com/data', allowedUrls)).toBe(true)
+    expect(isUrlAllowed('https://api.example.com/data?x=1', allowedUrls)).toBe(false)
+    expect(isUrlAllowed('https://api.example.com/users/123', allowedUrls)).toBe(true)
+    expect(isUrlAllowed('https://evil.com/data', allowedUrls)).toBe(false)
+    expect(isUrlAllowed('https://anything.org/', [])).toBe(true)
+    expect(isUrlAllowed('https://api.example.com/data', ['not a pattern'])).toBe(false)
+  })
+
+  test('should check wildcard patterns against parent patterns', () => {
+    const parent = ['https://api.example.org/v1/*', 'https://api.example.org/raw*']
+
+    expect(isUrlPatternWithin('https://api.example.org/v1', parent)).toBe(true)
+    expect(isUrlPatternWithin('https://api.example.org/v1*', parent)).toBe(false)
+    expect(isUrlPatternWithin('https://api.example.org/raw/x/*', parent)).toBe(true)
+    expect(isUrlPatternWithin('https://api.example.org/v1/users/*/orders', parent)).toBe(false)
+    expect(isUrlPatternWithin('https://*.example.org/v1/*', parent)).toBe(false)
+  })
+
+  test('should flag risky patterns', () => {
+    expect(codes(['re:https://api\\.example\\.com/'])).toEqual(['UNANCHORED_REGEX'])
+    expect(codes(['re:^https://.*$'])).toEqual(['BROAD_REGEX'])
+    expect(codes(['re:^https://api.example.com/x$'])).toEqual(['UNESCAPED_DOT'])
+    expect(codes(['^https://api\\.example\\.com/x$'])).toEqual(['IMPLICIT_REGEX'])
+    expect(codes(['https://*.com/'])).toEqual(['BROAD_HOST'])
+    expect(codes([])).toEqual(['ALLOWS_ALL'])
+    expect(codes(['re:^https://(api$'])).toEqual(['INVALID_PATTERN'])
+    expect(codes(['https://api.example.com/*', 're:^https://api\\.example\\.com/\\d+$'])).toEqual([])
+  })
+
+  test('should lint allowedUrls when generating a session signature', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      status: 200,
+      json: async () => ({ application: { name: 'test-app' } }),
+    }))
+    const generate = (allowedUrls: string[], strictUrlPatterns?: boolean) => generateSessionSignature({
+      applicationId: wallet.address,
+      applicationSecret: wallet.privateKey,
+      allowedUrls,
+      strictUrlPatterns,
+      telemetry: 'off',
+    })
+
+    await expect(generate(['re:^https://(api$'])).rejects.toThrow(InvalidParamError)
+    await expect(generate(['re:^https://.*$'])).resolves.toBeTruthy()
+    await expect(generate(['re:^https://.*$'], true)).rejects.toThrow(/unrelated hosts/)
+    await expect(generate([], true)).resolves.toBeTruthy()
+  })
+})
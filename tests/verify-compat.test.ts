@@ -0,0 +1,35 @@
+import { expect, test, describe } from 'vitest'
+import { createSignDataForClaim, getIdentifierFromClaimInfo } from '@reclaimprotocol/attestor-core/lib/utils/claims'
+import { createClaimSignData, getClaimIdentifier } from '../src/verify'
+
+// verifyProof recomputes what the attestor signs, so it must match attestor-core byte for byte
+const claims = [
+  { provider: 'http', parameters: '{"method":"GET","url":"https://api.example.org/price"}', context: '' },
+  { provider: 'http', parameters: '{}', context: '{"contextMessage":"test","contextAddress":"0x0000000000000000000000000000000000000000"}' },
+  { provider: 'http', parameters: '{}', context: '{"b":{"d":[3,{"f":1,"e":2}],"c":null},"a":true}' },
+  { provider: 'http', parameters: '{ "spaced": "json" }', context: '{ "unicode": "prix €, 価格", "escaped": "line\\nbreak \\"quoted\\"" }' },
+  { provider: 'http', parameters: '{}', context: '{"numbers":[1.0,0.1,-0,1e21,12345678901234567890]}' },
+  ...['null', 'false', '0', '""', '[]'].map(context => ({ provider: 'http', parameters: '{}', context })),
+]
+
+describe('attestor-core compatibility', () => {
+  test('should compute claim identifiers like attestor-core', () => {
+    for (const claim of claims) {
+      // getIdentifierFromClaimInfo canonicalizes the context in place
+      expect(getClaimIdentifier(claim)).toBe(getIdentifierFromClaimInfo({ ...claim }))
+    }
+  })
+
+  test('should build the sign data like attestor-core', () => {
+    for (const claim of claims) {
+      const claimData = {
+        ...claim,
+        owner: '0x96FAF173bb7171A530b3E44F35F32d1307Bda4FA',
+        timestampS: 1725377559,
+        epoch: 2,
+        identifier: getClaimIdentifier(claim),
+      }
+      expect(createClaimSignData(claimData, claimData.identifier)).toBe(createSignDataForClaim(claimData))
+    }
+  })
+})
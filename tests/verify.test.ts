@@ -0,0 +1,100 @@
+import { expect, test, describe } from 'vitest'
+import { ethers } from 'ethers'
+import { createSignedProof } from './verify'
+import { verifyProof, getClaimIdentifier, createClaimSignData, normalizeWitnessId } from '../src/verify'
+import { ProofVerificationFailureReason } from '../src/types'
+import { createOwnerKeyLink } from '../src/owner-key'
+
+describe('Proof Verification', () => {
+  const attestor = ethers.Wallet.createRandom()
+
+  test('should verify a proof signed by a trusted witness', async () => {
+    const proof = await createSignedProof([attestor])
+    const result = verifyProof(proof, { trustedWitnesses: [attestor.address] })
+
+    expect(result.isValid).toBe(true)
+    expect(result.failures).toHaveLength(0)
+    expect(result.identifier).toBe(proof.identifier)
+    expect(result.signers).toEqual([attestor.address.toLowerCase()])
+  })
+
+  test('should compute identifier independent of context key order', () => {
+    const a = getClaimIdentifier({ provider: 'http', parameters: '{}', context: '{"a":1,"b":{"d":2,"c":3}}' })
+    const b = getClaimIdentifier({ provider: 'http', parameters: '{}', context: '{"b":{"c":3,"d":2},"a":1}' })
+
+    expect(a).toBe(b)
+    expect(getClaimIdentifier({ provider: 'http', parameters: '{}', context: 'null' }))
+      .toBe(getClaimIdentifier({ provider: 'http', parameters: '{}', context: '' }))
+  })
+
+  test('should build the sign data a production attestor signed', () => {
+    // claim of the sample response in the README, signed by wss://witness.reclaimprotocol.org/ws
+    const signData = createClaimSignData({
+      owner: '0x96faf173bb7171a530b3e44f35f32d1307bda4fa',
+      timestampS: 1725377559,
+      epoch: 1,
+    }, '0x8518b246857a47658edc8314319305c1fb5eb666ec3ee36ae07e1564c73ff288')
+    const signature = '0x02d14b5f3377875ecab84125e53c2387b7b1a50b4762840b33dd24117326b88670818e24668aa65c5e80f8d71c192ba5803a9ca1415d72a81f3efcf1341379d41c'
+
+    expect(ethers.utils.verifyMessage(signData, signature)).toBe('0x244897572368Eadf65bfBc5aec98D8e5443a9072')
+  })
+
+  test('should reject a proof from an untrusted witness', async () => {
+    const proof = await createSignedProof([attestor])
+    const result = verifyProof(proof, { trustedWitnesses: [ethers.Wallet.createRandom().address] })
+
+    expect(result.isValid).toBe(false)
+    expect(result.failures.map(f => f.reason)).toEqual([ProofVerificationFailureReason.UNTRUSTED_WITNESS])
+  })
+
+  test('should detect tampered parameters', async () => {
+    const proof = await createSignedProof([attestor])
+    proof.claimData.parameters = proof.claimData.parameters.replace('api.example.com', 'evil.com')
+    const result = verifyProof(proof, { trustedWitnesses: [attestor.address] })
+
+    expect(result.isValid).toBe(false)
+    expect(result.failures.map(f => f.reason)).toContain(ProofVerificationFailureReason.IDENTIFIER_MISMATCH)
+  })
+
+  test('should detect a witness that did not produce the signature', async () => {
+    const proof = await createSignedProof([attestor])
+    const other = ethers.Wallet.createRandom()
+    proof.witnesses[0].id = other.address
+    const result = verifyProof(proof, { trustedWitnesses: [attestor.address, other.address] })
+
+    expect(result.isValid).toBe(false)
+    expect(result.failures[0].reason).toBe(ProofVerificationFailureReason.WITNESS_MISMATCH)
+    expect(result.failures[0].index).toBe(0)
+  })
+
+  test('should report malformed proofs', () => {
+    // @ts-expect-error a proof without claimData
+    const result = verifyProof({ signatures: [] }, { trustedWitnesses: [] })
+
+    expect(result.isValid).toBe(false)
+    expect(result.failures[0].reason).toBe(ProofVerificationFailureReason.MALFORMED_PROOF)
+  })
+
+  test('should follow owner key links to the expected owner', async () => {
+    const [first, second, third] = [0, 1, 2].map(() => ethers.Wallet.createRandom())
+    const links = [
+      await createOwnerKeyLink('0xapp', first.privateKey, second.privateKey),
+      await createOwnerKeyLink('0xapp', second.privateKey, third.privateKey),
+    ]
+    const proof = await createSignedProof([attestor], { owner: first.address })
+    const verify = (options: object) => verifyProof(proof, { trustedWitnesses: [attestor.address], ...options })
+
+    expect(verify({ expectedOwner: first.address }).isValid).toBe(true)
+    expect(verify({ expectedOwner: third.address, ownerLinks: links }).isValid).toBe(true)
+    expect(verify({ expectedOwner: third.address, ownerLinks: [links[1]] }).failures[0].reason)
+      .toBe(ProofVerificationFailureReason.OWNER_MISMATCH)
+    expect(verify({ expectedOwner: third.address, ownerLinks: [links[0], { ...links[1], newOwnerSignature: links[0].newOwnerSignature }] }).isValid)
+      .toBe(false)
+  })
+
+  test('should decode hex-encoded witness IDs', () => {
+    const encoded = ethers.utils.hexlify(ethers.utils.toUtf8Bytes(attestor.address.toLowerCase()))
+
+    expect(normalizeWitnessId(encoded)).toBe(attestor.address.toLowerCase())
+  })
+})
@@ -0,0 +1,32 @@
+import { ethers } from 'ethers'
+import { Proof, ProviderClaimData } from '../src/interfaces'
+import { getClaimIdentifier, createClaimSignData } from '../src/verify'
+
+/**
+ * Helper: Build a proof for the given claim signed by each witness wallet
+ */
+export const createSignedProof = async (
+  witnesses: ethers.Wallet[],
+  claim: Partial<ProviderClaimData> = {}
+): Promise<Proof> => {
+  const base = {
+    provider: 'http',
+    parameters: '{"body":"","method":"GET","responseMatches":[{"type":"regex","value":"(?<data>.*)"}],"responseRedactions":[],"url":"https://api.example.com/data"}',
+    owner: ethers.Wallet.createRandom().address,
+    timestampS: Math.floor(Date.now() / 1000),
+    context: '{"extractedParameters":{"data":"ok"},"contextMessage":"test","contextAddress":"0x0000000000000000000000000000000000000000"}',
+    epoch: 1,
+    ...claim,
+  }
+  const identifier = claim.identifier || getClaimIdentifier(base)
+  const claimData: ProviderClaimData = { ...base, identifier }
+  const signData = createClaimSignData(claimData, identifier)
+
+  return {
+    identifier,
+    claimData,
+    signatures: await Promise.all(witnesses.map(w => w.signMessage(signData))),
+    witnesses: witnesses.map(w => ({ id: w.address.toLowerCase(), url: 'wss://attestor.example.com/ws' })),
+    extractedParameterValues: { data: 'ok' },
+  }
+}